@@ -39,6 +39,24 @@ function generateDemoStats(): CodexStats {
     maxStreakDays.add(dateStr);
   }
 
+  // Token composition follows the yearly totals; cost shares add up to the total cost
+  const models = [
+    { id: "gpt-5.2-codex", name: "GPT-5.2 Codex", count: 29_348_000, percentage: 50.6, messages: 9_870, costPercentage: 61.2 },
+    { id: "gpt-4.1", name: "GPT-4.1", count: 13_862_000, percentage: 23.9, messages: 4_412, costPercentage: 19.8 },
+    { id: "gpt-4o", name: "GPT-4o", count: 8_352_000, percentage: 14.4, messages: 2_985, costPercentage: 13.1 },
+    { id: "o4-mini", name: "o4-mini", count: 4_176_000, percentage: 7.2, messages: 1_667, costPercentage: 5.9 },
+  ].map((model) => ({
+    ...model,
+    providerId: "openai",
+    inputTokens: Math.round(model.count * 0.78),
+    cachedInputTokens: Math.round(model.count * 0.12),
+    outputTokens: Math.round(model.count * 0.22),
+    reasoningTokens: Math.round(model.count * 0.04),
+    cost: (127.45 * model.costPercentage) / 100,
+    cachedInputRatio: 0.12 / 0.78,
+    cacheSavings: (34.1 * model.costPercentage) / 100,
+  }));
+
   // Weekday activity distribution
   const weekdayCounts: [number, number, number, number, number, number, number] = [
     142, // Sunday
@@ -54,8 +72,47 @@ function generateDemoStats(): CodexStats {
   const mostActiveWeekday = weekdayCounts.indexOf(maxWeekdayCount);
   const weekdayNames = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
 
+  // Hour-of-day distribution peaking mid-afternoon, with a late-evening tail
+  const hourlyCounts = [
+    40, 22, 9, 3, 1, 2, 8, 31, 96, 168, 214, 205, 142, 188, 246, 261, 232, 190, 121, 98, 112, 104, 81, 59,
+  ];
+  const punchCard = weekdayCounts.map((dayCount) =>
+    hourlyCounts.map((hourCount) => Math.round((hourCount * dayCount) / 1788))
+  );
+
+  // Spread the yearly totals over the months by their share of messages
+  const totalDemoMessages = Array.from(dailyActivity.values()).reduce((sum, count) => sum + count, 0);
+  const monthly = Array.from({ length: 12 }, (_, i) => {
+    const month = `${year}-${String(i + 1).padStart(2, "0")}`;
+    const messages = Array.from(dailyActivity)
+      .filter(([date]) => date.startsWith(month))
+      .reduce((sum, [, count]) => sum + count, 0);
+    const share = messages / totalDemoMessages;
+    return {
+      month,
+      label: new Date(year, i, 1).toLocaleString("en-US", { month: "short" }),
+      sessions: Math.round(1247 * share),
+      messages,
+      inputTokens: Math.round(45_200_000 * share),
+      cachedInputTokens: Math.round(6_800_000 * share),
+      outputTokens: Math.round(12_800_000 * share),
+      reasoningTokens: Math.round(2_300_000 * share),
+      totalTokens: Math.round(58_000_000 * share),
+      cost: 127.45 * share,
+      costByModel: new Map(share > 0 ? [["gpt-5.2-codex", 127.45 * share]] : []),
+      cachedInputRatio: share > 0 ? 6_800_000 / 45_200_000 : null,
+      cacheSavings: 34.1 * share,
+    };
+  });
+
   return {
-    year,
+    range: {
+      from: `${year}-01-01`,
+      to: `${year}-12-31`,
+      label: String(year),
+      slug: String(year),
+    },
+    timeZone: "Europe/Berlin",
     firstSessionDate: startDate,
     daysSinceFirstSession: Math.floor((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24)),
 
@@ -71,12 +128,15 @@ function generateDemoStats(): CodexStats {
 
     totalCost: 127.45,
     hasUsageCost: true,
+    cacheSavings: {
+      costWithoutCache: 161.55,
+      saved: 34.1,
+      savedPercentage: 21.1,
+      cachedInputRatio: 6_800_000 / 45_200_000,
+    },
 
-    topModels: [
-      { id: "gpt-5.2-codex", name: "GPT-5.2 Codex", providerId: "openai", count: 4521, percentage: 50.6 },
-      { id: "gpt-4.1", name: "GPT-4.1", providerId: "openai", count: 2134, percentage: 23.9 },
-      { id: "gpt-4o", name: "GPT-4o", providerId: "openai", count: 1289, percentage: 14.4 },
-    ],
+    topModels: models.slice(0, 3),
+    models,
 
     topProviders: [
       { id: "openai", name: "OpenAI", count: 7810, percentage: 85.0 },
@@ -84,11 +144,154 @@ function generateDemoStats(): CodexStats {
       { id: "google", name: "Google", count: 390, percentage: 3.9 },
     ],
 
+    projects: [
+      { id: "/home/demo/src/web-app", name: "acme/web-app", path: "/home/demo/src/web-app", sessions: 412, messages: 6210, tokens: 21_400_000, cost: 48.2, activeDays: 96, codeChanges: { additions: 48_210, deletions: 17_934, files: 812 }, firstUsed: startDate, lastUsed: endDate },
+      { id: "/home/demo/src/api", name: "acme/api", path: "/home/demo/src/api", sessions: 287, messages: 4105, tokens: 14_900_000, cost: 31.75, activeDays: 71, codeChanges: { additions: 29_874, deletions: 11_052, files: 455 }, firstUsed: startDate, lastUsed: endDate },
+      { id: "/home/demo/src/dotfiles", name: "dotfiles", path: "/home/demo/src/dotfiles", sessions: 96, messages: 1180, tokens: 4_300_000, cost: 9.1, activeDays: 33, codeChanges: { additions: 3_120, deletions: 1_466, files: 61 }, firstUsed: startDate, lastUsed: endDate },
+    ],
+
+    clients: [
+      { id: "codex_cli_rs", name: "CLI", surface: "terminal", sessions: 782, messages: 8_410, tokens: 27_100_000, cost: 60.4, percentage: 62.1 },
+      { id: "codex_vscode", name: "VS Code", surface: "ide", sessions: 321, messages: 2_905, tokens: 9_800_000, cost: 21.15, percentage: 25.5 },
+      { id: "codex_exec", name: "Exec", surface: "exec", sessions: 156, messages: 180, tokens: 3_700_000, cost: 7.5, percentage: 12.4 },
+    ],
+    cliVersions: [
+      { version: "0.39.0", sessions: 214, firstUsed: startDate, lastUsed: new Date(year, 7, 20) },
+      { version: "0.42.0", sessions: 498, firstUsed: new Date(year, 7, 18), lastUsed: new Date(year, 9, 30) },
+      { version: "0.46.0", sessions: 547, firstUsed: new Date(year, 9, 28), lastUsed: endDate },
+    ],
+    codeChanges: {
+      additions: 81_204,
+      deletions: 30_452,
+      files: 1_328,
+      patches: 10_870,
+      sessions: 904,
+      tokensPerChangedLine: 519.4,
+    },
+
+    totalToolCalls: 41_382,
+    tools: [
+      { name: "shell", kind: "shell", count: 27_514, percentage: 66.5 },
+      { name: "apply_patch", kind: "apply_patch", count: 10_870, percentage: 26.3 },
+      { name: "github__get_issue", kind: "mcp", count: 1_812, percentage: 4.4 },
+      { name: "web_search", kind: "web_search", count: 903, percentage: 2.2 },
+      { name: "view_image", kind: "view_image", count: 283, percentage: 0.7 },
+    ],
+    topShellCommands: [
+      { program: "rg", count: 9_842, percentage: 35.8 },
+      { program: "sed", count: 6_105, percentage: 22.2 },
+      { program: "git", count: 4_377, percentage: 15.9 },
+      { program: "npm", count: 3_019, percentage: 11.0 },
+      { program: "ls", count: 2_290, percentage: 8.3 },
+    ],
+    context: {
+      measuredSessions: 1_184,
+      averageFillPercent: 31.4,
+      averagePeakFillPercent: 52.8,
+      fullestSession: { peakFillPercent: 100, startedAt: new Date(year, 10, 3, 14, 20), projectName: "acme/api" },
+      autoCompactions: 148,
+      manualCompactions: 37,
+      sessionsOutOfContext: 9,
+      cacheRatioByFill: [
+        { fromPercent: 0, toPercent: 25, requests: 14_210, cachedInputRatio: 0.41 },
+        { fromPercent: 25, toPercent: 50, requests: 8_904, cachedInputRatio: 0.68 },
+        { fromPercent: 50, toPercent: 75, requests: 4_127, cachedInputRatio: 0.79 },
+        { fromPercent: 75, toPercent: 100, requests: 1_603, cachedInputRatio: 0.84 },
+      ],
+    },
+    rateLimits: {
+      snapshots: 8_412,
+      windows: [
+        {
+          name: "primary",
+          label: "5h",
+          windowMinutes: 300,
+          peakPercent: 100,
+          peakAt: new Date(year, 9, 14, 16, 40),
+          periods: 402,
+          hits: 6,
+          approaches: 23,
+          dailyPeak: new Map(Array.from(dailyActivity, ([date, count]) => [date, Math.min(100, count * 4)])),
+        },
+        {
+          name: "secondary",
+          label: "Weekly",
+          windowMinutes: 10_080,
+          peakPercent: 71,
+          peakAt: new Date(year, 9, 17, 11, 5),
+          periods: 52,
+          hits: 0,
+          approaches: 0,
+          dailyPeak: new Map(Array.from(dailyActivity, ([date, count]) => [date, Math.min(71, count * 3)])),
+        },
+      ],
+      throttledDays: new Set(Array.from(dailyActivity).filter(([, count]) => count >= 25).map(([date]) => date)),
+    },
+    totalTurns: 9_860,
+    turnSettings: {
+      reasoningEffort: [
+        { value: "medium", label: "Medium", turns: 5_126, tokens: 22_300_000, cost: 49.6, percentage: 52.0 },
+        { value: "high", label: "High", turns: 3_648, tokens: 16_900_000, cost: 37.4, percentage: 37.0 },
+        { value: "low", label: "Low", turns: 1_086, tokens: 1_400_000, cost: 2.05, percentage: 11.0 },
+      ],
+      approvalPolicy: [
+        { value: "on-request", label: "On Request", turns: 6_409, tokens: 26_100_000, cost: 57.8, percentage: 65.0 },
+        { value: "never", label: "Never Ask", turns: 3_451, tokens: 14_500_000, cost: 31.25, percentage: 35.0 },
+      ],
+      sandboxMode: [
+        { value: "workspace-write", label: "Workspace Write", turns: 7_592, tokens: 31_800_000, cost: 70.1, percentage: 77.0 },
+        { value: "read-only", label: "Read Only", turns: 1_578, tokens: 5_900_000, cost: 12.4, percentage: 16.0 },
+        { value: "danger-full-access", label: "Full Access", turns: 690, tokens: 2_900_000, cost: 6.55, percentage: 7.0 },
+      ],
+    },
+    // Prompt analytics are opt-in (--prompts), so the default card leaves them out
+    prompts: null,
+    comparison: null,
+
     maxStreak: 21,
     currentStreak: 8,
     maxStreakDays,
+    achievements: {
+      persona: {
+        name: "The Night Owl",
+        achievementId: "night-owl",
+        description: "25% or more of messages sent between 22:00 and 04:00",
+      },
+      badges: [
+        { id: "night-owl", name: "Night Owl", description: "25% or more of messages sent between 22:00 and 04:00", value: 0.41, threshold: 0.3 },
+        { id: "polyglot", name: "Polyglot", description: "Worked with 5 or more models", value: 5, threshold: 5 },
+        { id: "regular", name: "Regular", description: "Active on 100 or more days", value: 214, threshold: 100 },
+      ],
+    },
+    streak: {
+      mode: "daily",
+      unit: "day",
+      definition: "consecutive days",
+      longest: { length: 21, from: `${year}-10-01`, to: `${year}-10-21` },
+      current: 8,
+      longestBreak: { days: 6, from: `${year}-02-10`, to: `${year}-02-15` },
+    },
 
     dailyActivity,
+    dailyTokens: new Map(Array.from(dailyActivity, ([date, count]) => [date, count * 42_000])),
+    dailyCost: new Map(Array.from(dailyActivity, ([date, count]) => [date, count * 0.09])),
+    dailySessions: new Map(Array.from(dailyActivity, ([date, count]) => [date, Math.ceil(count / 6)])),
+    monthly,
+
+    sessionTime: {
+      idleGapMinutes: 15,
+      activeHours: 612.4,
+      wallClockHours: 1_048.9,
+      measuredSessions: 1_198,
+      averageSessionMinutes: 30.7,
+      longestSession: {
+        activeMinutes: 287,
+        wallClockMinutes: 402,
+        startedAt: new Date(year, 9, 14, 9, 12),
+        projectName: "acme/web-app",
+      },
+    },
+    dailyHours: new Map(Array.from(dailyActivity, ([date, count]) => [date, count * 0.2])),
 
     mostActiveDay: {
       date: "2025-10-15",
@@ -102,6 +305,16 @@ function generateDemoStats(): CodexStats {
       mostActiveDayName: weekdayNames[mostActiveWeekday],
       maxCount: maxWeekdayCount,
     },
+
+    hourlyActivity: {
+      counts: hourlyCounts,
+      punchCard,
+      peakHour: 15,
+      maxCount: 261,
+      punchCardMax: Math.max(...punchCard.flat()),
+      chronotype: "nine-to-five",
+      chronotypeName: "Nine-to-Fiver",
+    },
   };
 }
 
@@ -0,0 +1,157 @@
+// Achievements - badges earned by crossing thresholds in the stats, and the persona they add up to
+
+import { EARLY_BIRD_WINDOW, getHourShare, NIGHT_OWL_WINDOW } from "./chronotype";
+import type { Achievement, AchievementStats, CodexStats } from "./types";
+
+interface AchievementDefinition {
+  id: string;
+  name: string;
+  /** Persona this achievement stands for when it is the strongest one earned */
+  persona: string;
+  /** Earned once the measured value reaches this */
+  threshold: number;
+  describe: (threshold: number) => string;
+  /** null when the stats can't tell, e.g. no time measured */
+  measure: (stats: Omit<CodexStats, "achievements">) => number | null;
+}
+
+// Order breaks ties in strength, so rarer achievements come first
+const ACHIEVEMENTS: AchievementDefinition[] = [
+  {
+    id: "streak-100",
+    name: "100-Day Streak",
+    persona: "The Relentless",
+    threshold: 100,
+    describe: (threshold) => `Coded ${threshold} or more days in a row`,
+    measure: (stats) => (stats.streak.unit === "day" ? stats.maxStreak : null),
+  },
+  {
+    id: "marathon",
+    name: "Marathon",
+    persona: "The Marathoner",
+    threshold: 240,
+    describe: (threshold) => `A session with ${threshold / 60}h or more of active time`,
+    measure: (stats) => stats.sessionTime.longestSession?.activeMinutes ?? null,
+  },
+  {
+    id: "cache-master",
+    name: "Cache Master",
+    persona: "The Optimizer",
+    threshold: 0.9,
+    describe: (threshold) => `${formatShare(threshold)} or more of input tokens served from cache`,
+    measure: (stats) => stats.cacheSavings.cachedInputRatio,
+  },
+  {
+    id: "polyglot",
+    name: "Polyglot",
+    persona: "The Polyglot",
+    threshold: 5,
+    describe: (threshold) => `Worked with ${threshold} or more models`,
+    measure: (stats) => stats.models.length,
+  },
+  {
+    id: "night-owl",
+    name: "Night Owl",
+    persona: "The Night Owl",
+    // Same window as the Night Owl chronotype, so the two always agree
+    threshold: NIGHT_OWL_WINDOW.share,
+    describe: (threshold) => `${formatShare(threshold)} or more of messages sent between 22:00 and 04:00`,
+    measure: (stats) => getHourShare(stats.hourlyActivity.counts, NIGHT_OWL_WINDOW.hours),
+  },
+  {
+    id: "early-bird",
+    name: "Early Bird",
+    persona: "The Early Bird",
+    threshold: EARLY_BIRD_WINDOW.share,
+    describe: (threshold) => `${formatShare(threshold)} or more of messages sent between 05:00 and 09:00`,
+    measure: (stats) => getHourShare(stats.hourlyActivity.counts, EARLY_BIRD_WINDOW.hours),
+  },
+  {
+    id: "weekend-warrior",
+    name: "Weekend Warrior",
+    persona: "The Weekend Warrior",
+    threshold: 0.35,
+    describe: (threshold) => `${formatShare(threshold)} or more of messages sent on weekends`,
+    measure: (stats) => {
+      const counts = stats.weekdayActivity.counts;
+      const total = counts.reduce((sum, count) => sum + count, 0);
+      return total > 0 ? (counts[0] + counts[6]) / total : null;
+    },
+  },
+  {
+    id: "builder",
+    name: "10k Lines",
+    persona: "The Builder",
+    threshold: 10_000,
+    describe: (threshold) => `Wrote ${threshold.toLocaleString("en-US")} or more lines through patches`,
+    measure: (stats) => stats.codeChanges.additions,
+  },
+  {
+    id: "explorer",
+    name: "Explorer",
+    persona: "The Explorer",
+    threshold: 10,
+    describe: (threshold) => `Worked in ${threshold} or more projects`,
+    measure: (stats) => stats.totalProjects,
+  },
+  {
+    id: "regular",
+    name: "Regular",
+    persona: "The Regular",
+    threshold: 100,
+    describe: (threshold) => `Active on ${threshold} or more days`,
+    measure: (stats) => stats.dailyActivity.size,
+  },
+  {
+    id: "power-user",
+    name: "Power User",
+    persona: "The Power User",
+    threshold: 1_000,
+    describe: (threshold) => `Ran ${threshold.toLocaleString("en-US")} or more tool calls`,
+    measure: (stats) => stats.totalToolCalls,
+  },
+  {
+    id: "token-tycoon",
+    name: "Token Tycoon",
+    persona: "The Tycoon",
+    threshold: 100_000_000,
+    describe: (threshold) => `Went through ${threshold / 1_000_000}M or more tokens`,
+    measure: (stats) => stats.totalTokens,
+  },
+];
+
+/** Every achievement the stats earn, strongest (furthest past its threshold) first; the strongest one sets the persona */
+export function awardAchievements(stats: Omit<CodexStats, "achievements">): AchievementStats {
+  const earned: Array<{ achievement: Achievement; persona: string; strength: number }> = [];
+  for (const definition of ACHIEVEMENTS) {
+    const value = definition.measure(stats);
+    if (value === null || value < definition.threshold) continue;
+
+    earned.push({
+      achievement: {
+        id: definition.id,
+        name: definition.name,
+        description: definition.describe(definition.threshold),
+        value,
+        threshold: definition.threshold,
+      },
+      persona: definition.persona,
+      strength: value / definition.threshold,
+    });
+  }
+
+  earned.sort((a, b) => b.strength - a.strength);
+  const primary = earned[0];
+
+  return {
+    persona: primary
+      ? { name: primary.persona, achievementId: primary.achievement.id, description: primary.achievement.description }
+      : null,
+    badges: earned.map((entry) => entry.achievement),
+  };
+}
+
+/** 0.35 -> "35%" */
+function formatShare(share: number): string {
+  return `${Math.round(share * 100)}%`;
+}
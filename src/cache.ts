@@ -0,0 +1,93 @@
+// On-disk cache for per-file parse results, keyed by path, size and mtime
+
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import os from "node:os";
+import { xdgCache } from "xdg-basedir";
+
+const CACHE_DIR = join(xdgCache ?? join(os.tmpdir(), ".cache"), "codex-wrapped-noyrlimit");
+
+export interface FileFingerprint {
+  size: number;
+  mtimeMs: number;
+}
+
+interface CacheEntry<T> extends FileFingerprint {
+  value: T;
+}
+
+interface CacheFileContents<T> {
+  version: number;
+  entries: Record<string, CacheEntry<T>>;
+}
+
+export interface FileCache<T> {
+  path: string;
+  version: number;
+  entries: Map<string, CacheEntry<T>>;
+  dirty: boolean;
+}
+
+/**
+ * Load a named cache. A missing, unreadable or outdated cache file yields an empty cache,
+ * so callers never have to care whether the cache existed.
+ */
+export async function loadFileCache<T>(name: string, version: number): Promise<FileCache<T>> {
+  const path = join(CACHE_DIR, `${name}.json`);
+  const cache: FileCache<T> = { path, version, entries: new Map(), dirty: false };
+
+  try {
+    const raw = JSON.parse(await readFile(path, "utf8")) as CacheFileContents<T>;
+    if (raw?.version === version && raw.entries && typeof raw.entries === "object") {
+      cache.entries = new Map(Object.entries(raw.entries));
+    }
+  } catch {
+    // Start with an empty cache
+  }
+
+  return cache;
+}
+
+export function getCachedFile<T>(cache: FileCache<T>, filePath: string, fingerprint: FileFingerprint): T | undefined {
+  const entry = cache.entries.get(filePath);
+  if (!entry || entry.size !== fingerprint.size || entry.mtimeMs !== fingerprint.mtimeMs) {
+    return undefined;
+  }
+  return entry.value;
+}
+
+export function setCachedFile<T>(cache: FileCache<T>, filePath: string, fingerprint: FileFingerprint, value: T): void {
+  cache.entries.set(filePath, { size: fingerprint.size, mtimeMs: fingerprint.mtimeMs, value });
+  cache.dirty = true;
+}
+
+/** Drop every entry whose path is rejected by `keep` */
+export function pruneFileCache<T>(cache: FileCache<T>, keep: (filePath: string) => boolean): void {
+  for (const filePath of cache.entries.keys()) {
+    if (!keep(filePath)) {
+      cache.entries.delete(filePath);
+      cache.dirty = true;
+    }
+  }
+}
+
+/** Persist the cache if it changed. Failures are ignored - the cache is only an optimization. */
+export async function saveFileCache<T>(cache: FileCache<T>): Promise<void> {
+  if (!cache.dirty) return;
+
+  const contents: CacheFileContents<T> = {
+    version: cache.version,
+    entries: Object.fromEntries(cache.entries),
+  };
+
+  // Write to a temp file and rename so a crash never leaves a truncated cache behind
+  const tempPath = `${cache.path}.${process.pid}.tmp`;
+  try {
+    await mkdir(CACHE_DIR, { recursive: true });
+    await writeFile(tempPath, JSON.stringify(contents));
+    await rename(tempPath, cache.path);
+    cache.dirty = false;
+  } catch {
+    // Ignore cache write errors
+  }
+}
@@ -0,0 +1,41 @@
+// Chronotype - when in the day someone codes, from the share of messages per hour
+
+import type { Chronotype } from "./types";
+
+export interface HourWindow {
+  /** Hours of the day (0-23) in the window */
+  hours: number[];
+  /** Share of all messages (0-1) the window needs to hold */
+  share: number;
+}
+
+export const NIGHT_OWL_WINDOW: HourWindow = { hours: [22, 23, 0, 1, 2, 3], share: 0.25 };
+export const EARLY_BIRD_WINDOW: HourWindow = { hours: [5, 6, 7, 8], share: 0.2 };
+const OFFICE_HOURS_WINDOW: HourWindow = { hours: [9, 10, 11, 12, 13, 14, 15, 16, 17], share: 0.6 };
+
+export const CHRONOTYPE_NAMES: Record<Chronotype, string> = {
+  "early-bird": "Early Bird",
+  "nine-to-five": "Nine-to-Fiver",
+  "night-owl": "Night Owl",
+  "around-the-clock": "Around the Clock",
+};
+
+/** Share of the messages counted per hour that fall into the given hours; null without messages */
+export function getHourShare(counts: number[], hours: number[]): number | null {
+  const total = counts.reduce((sum, count) => sum + count, 0);
+  return total > 0 ? hours.reduce((sum, hour) => sum + counts[hour], 0) / total : null;
+}
+
+/**
+ * Night owls send a quarter of their messages between 22:00 and 04:00,
+ * early birds a fifth between 05:00 and 09:00; otherwise it depends on office-hours share.
+ */
+export function classifyChronotype(counts: number[]): Chronotype {
+  if (counts.every((count) => count === 0)) return "nine-to-five";
+
+  const reaches = (window: HourWindow) => (getHourShare(counts, window.hours) ?? 0) >= window.share;
+  if (reaches(NIGHT_OWL_WINDOW)) return "night-owl";
+  if (reaches(EARLY_BIRD_WINDOW)) return "early-bird";
+  if (reaches(OFFICE_HOURS_WINDOW)) return "nine-to-five";
+  return "around-the-clock";
+}
@@ -0,0 +1,23 @@
+// Clients - which Codex surface (terminal, IDE, headless exec) a session ran in
+
+import type { ClientSurface } from "./types";
+
+export interface ClientInfo {
+  name: string;
+  surface: ClientSurface;
+}
+
+// Originators recorded in session_meta
+const KNOWN_CLIENTS: Record<string, ClientInfo> = {
+  codex_cli_rs: { name: "CLI", surface: "terminal" },
+  codex_vscode: { name: "VS Code", surface: "ide" },
+  codex_exec: { name: "Exec", surface: "exec" },
+};
+
+/** Display name and surface of an originator; unrecognized ones keep their raw name */
+export function getClientInfo(originator: string): ClientInfo {
+  const known = KNOWN_CLIENTS[originator];
+  if (known) return known;
+  if (originator === "unknown") return { name: "Unknown", surface: "other" };
+  return { name: originator, surface: "other" };
+}
@@ -1,12 +1,59 @@
 // Data collector - reads Codex CLI storage and returns raw data
 
-import { readdir, readFile, stat } from "node:fs/promises";
-import { join } from "node:path";
+import { readdir, stat } from "node:fs/promises";
+import { createHash } from "node:crypto";
+import { join, resolve, sep } from "node:path";
 import os from "node:os";
 
-const CODEX_DATA_PATH = join(os.homedir(), ".codex");
-const CODEX_HISTORY_PATH = join(CODEX_DATA_PATH, "history.jsonl");
-const CODEX_SESSIONS_PATH = join(CODEX_DATA_PATH, "sessions");
+import type { DateRange } from "./types";
+import {
+  getCachedFile,
+  loadFileCache,
+  pruneFileCache,
+  saveFileCache,
+  setCachedFile,
+  type FileCache,
+  type FileFingerprint,
+} from "./cache";
+import {
+  CONTEXT_FILL_BUCKETS,
+  getFillPercent,
+  isContextWindowError,
+  measureSessionContext,
+  type ContextSample,
+  type SessionContext,
+} from "./context-window";
+import { loadProjectOverrides, resolveProject, type ProjectIdentity } from "./projects";
+import { getApplyPatchInput, parseApplyPatchInput, parsePatchChanges, type ParsedPatch } from "./patches";
+import { addPromptToTally, createPromptTally, type PromptTally } from "./prompts";
+import { parseRateLimits, type RateLimitSnapshot } from "./rate-limits";
+import {
+  DEFAULT_IDLE_GAP_MINUTES,
+  measureSessionTime,
+  getSegmentEnd,
+  toActivitySegments,
+  trimActivitySegments,
+  type ActivitySegment,
+} from "./session-time";
+import { parseToolCall, type ParsedToolCall } from "./tools";
+import { parseTurnSettings, type TurnSettings } from "./turn-context";
+import { mapWithConcurrency } from "./utils/concurrency";
+import { createDateKeyResolver, getDateKey, getZonedParts, resolveTimeZone } from "./utils/dates";
+import { expandHomeDir } from "./utils/paths";
+import { readJsonLines } from "./utils/jsonl";
+import { isDateKeyInRange } from "./utils/range";
+
+const DEFAULT_CODEX_HOME = join(os.homedir(), ".codex");
+const HISTORY_FILE = "history.jsonl";
+const SESSIONS_DIR = "sessions";
+
+// Bump whenever ParsedSession changes shape or meaning so stale cache entries are discarded
+const SESSION_CACHE_NAME = "sessions";
+const SESSION_CACHE_VERSION = 11;
+
+// Rollouts are read with this many files open at once. This overlaps file I/O on the main thread;
+// the JSON parsing itself still runs on a single core.
+const FILE_CONCURRENCY = 8;
 
 export interface CodexUsageEvent {
   timestamp: string;
@@ -16,44 +63,177 @@ export interface CodexUsageEvent {
   outputTokens: number;
   reasoningOutputTokens: number;
   totalTokens: number;
+  /** Settings of the turn the tokens were spent in */
+  settings: TurnSettings;
+  /** Tokens the request occupied and the model's window, when the rollout reports the window */
+  contextTokens?: number;
+  contextWindow?: number;
+  /** Project the event belongs to; set when sessions are aggregated */
+  projectId?: string;
+  /** Client that ran the session ("codex_cli_rs", "codex_vscode", ...); set when sessions are aggregated */
+  originator?: string;
+}
+
+export interface CodexToolCall extends ParsedToolCall {
+  timestamp: string;
+}
+
+/** One turn_context entry, i.e. one turn and the settings it ran with */
+export interface CodexTurn extends TurnSettings {
+  timestamp: string;
+}
+
+export interface CodexPatch extends ParsedPatch {
+  timestamp: string;
+}
+
+/** Lines and files changed by applied patches */
+export interface CodexCodeChanges {
+  additions: number;
+  deletions: number;
+  files: Set<string>;
+  patches: number;
+  /** Sessions that applied at least one patch */
+  sessions: number;
+}
+
+/** Time spent in sessions, measured from rollout timestamps */
+export interface CodexTimeUsage {
+  activeMs: number;
+  wallClockMs: number;
+  /** Sessions with at least two timestamps in range */
+  sessions: number;
+  longestSession: { activeMs: number; wallClockMs: number; startedAt: Date; projectName?: string } | null;
+  dailyActiveMs: Map<string, number>;
+}
+
+/** Context window fill and compactions, summed over sessions that reported a context window */
+export interface CodexContextUsage {
+  sessions: number;
+  averageFillSum: number;
+  peakFillSum: number;
+  fullestSession: { peakFillPercent: number; startedAt: Date; projectName?: string } | null;
+  ranOutSessions: number;
+  autoCompactions: number;
+  manualCompactions: number;
+  /** Requests per CONTEXT_FILL_BUCKETS entry, with their input and cached input */
+  fillBuckets: { requests: number; inputTokens: number; cachedInputTokens: number }[];
+}
+
+/** Sessions and messages per client, keyed by originator ("unknown" for rollouts that don't record it) */
+export interface CodexClientUsage {
+  originator: string;
+  sessions: number;
+  messages: number;
+}
+
+/** Sessions per Codex CLI version and when it was in use */
+export interface CodexCliVersionUsage {
+  version: string;
+  sessions: number;
+  firstUsed: Date;
+  lastUsed: Date;
+}
+
+export interface CodexProjectUsage extends ProjectIdentity {
+  sessions: number;
+  messages: number;
+  codeChanges: CodexCodeChanges;
+  activeDays: Set<string>;
+  firstUsed: Date | null;
+  lastUsed: Date | null;
+}
+
+export interface CollectOptions {
+  range: DateRange;
+  /** Codex home directories to read; sessions found in several of them are merged */
+  codexHomes: string[];
+  /** Reuse parsed rollouts from the on-disk cache (default: true) */
+  useCache?: boolean;
+  /** JSON file mapping path prefixes to project names (default: the one in the XDG config dir, if any) */
+  projectMapPath?: string;
+  /** IANA time zone that days and hours are bucketed in (default: the system zone) */
+  timeZone?: string;
+  /** Pauses longer than this don't count as active time (default: 15 minutes) */
+  idleGapMinutes?: number;
+  /** Re-read the counted prompts for length, attachment and vocabulary analytics (default: false) */
+  analyzePrompts?: boolean;
 }
 
 export interface CodexUsageData {
   events: CodexUsageEvent[];
+  toolCalls: CodexToolCall[];
+  turns: CodexTurn[];
+  /** Plan usage snapshots, sorted by time; they describe the account, so each is kept once */
+  rateLimits: RateLimitSnapshot[];
+  codeChanges: CodexCodeChanges;
+  time: CodexTimeUsage;
+  context: CodexContextUsage;
+  clients: Map<string, CodexClientUsage>;
+  cliVersions: Map<string, CodexCliVersionUsage>;
+  /** Only collected with `analyzePrompts` */
+  prompts: PromptTally | null;
   dailyActivity: Map<string, number>;
+  /** Prompts by the model that answered them */
+  modelMessages: Map<string, number>;
+  /** Sessions with a message or token event on the day */
+  dailySessions: Map<string, number>;
+  /** Sessions by the month ("2026-03") of their first activity in the range */
+  monthlySessions: Map<string, number>;
+  hourlyActivity: number[]; // 24 buckets, index = hour of day
+  weekdayHourActivity: number[][]; // [weekday][hour], 0=Sunday
   totalMessages: number;
   totalSessions: number;
-  projects: Set<string>;
+  projects: Map<string, CodexProjectUsage>;
   earliestSessionDate: Date | null;
 }
 
-export async function checkCodexDataExists(): Promise<boolean> {
-  try {
-    const info = await stat(CODEX_SESSIONS_PATH);
-    return info.isDirectory();
-  } catch {
-    return false;
+/**
+ * Resolve the Codex home directories to read.
+ * Explicit paths win over $CODEX_HOME, which wins over ~/.codex.
+ */
+export function resolveCodexHomes(explicit: string[] = []): string[] {
+  const candidates = explicit.length > 0 ? explicit : [asNonEmptyString(process.env.CODEX_HOME) ?? DEFAULT_CODEX_HOME];
+  const homes = candidates.map((candidate) => resolve(expandHomeDir(candidate)));
+  return Array.from(new Set(homes));
+}
+
+export async function checkCodexDataExists(codexHomes: string[]): Promise<boolean> {
+  for (const codexHome of codexHomes) {
+    try {
+      const info = await stat(join(codexHome, SESSIONS_DIR));
+      if (info.isDirectory()) {
+        return true;
+      }
+    } catch {
+      // Try the next home
+    }
   }
+  return false;
 }
 
-export async function listCodexSessionFiles(year: number): Promise<string[]> {
-  const yearPath = join(CODEX_SESSIONS_PATH, String(year));
+export async function listCodexSessionFiles(codexHome: string, year: number): Promise<string[]> {
+  const yearPath = join(codexHome, SESSIONS_DIR, String(year));
   return listCodexSessionFilesInDirectory(yearPath);
 }
 
-async function listAllCodexSessionFiles(): Promise<string[]> {
+async function listAllCodexSessionFiles(codexHomes: string[]): Promise<string[]> {
   const files: string[] = [];
-  let yearDirs: Array<string> = [];
-  try {
-    const entries = await readdir(CODEX_SESSIONS_PATH, { withFileTypes: true });
-    yearDirs = entries.filter((entry) => entry.isDirectory()).map((entry) => entry.name);
-  } catch {
-    return files;
-  }
 
-  for (const yearDir of yearDirs) {
-    const yearPath = join(CODEX_SESSIONS_PATH, yearDir);
-    files.push(...(await listCodexSessionFilesInDirectory(yearPath)));
+  for (const codexHome of codexHomes) {
+    const sessionsPath = join(codexHome, SESSIONS_DIR);
+    let yearDirs: Array<string> = [];
+    try {
+      const entries = await readdir(sessionsPath, { withFileTypes: true });
+      yearDirs = entries.filter((entry) => entry.isDirectory()).map((entry) => entry.name);
+    } catch {
+      continue;
+    }
+
+    for (const yearDir of yearDirs) {
+      const yearPath = join(sessionsPath, yearDir);
+      files.push(...(await listCodexSessionFilesInDirectory(yearPath)));
+    }
   }
 
   return files;
@@ -97,214 +277,83 @@ async function listCodexSessionFilesInDirectory(yearPath: string): Promise<strin
   return files;
 }
 
-export async function getCodexFirstPromptTimestamp(): Promise<number | null> {
-  try {
-    const raw = await readFile(CODEX_HISTORY_PATH, "utf8");
-    let minTs: number | null = null;
-    for (const line of raw.split("\n")) {
-      if (!line.trim()) continue;
-      try {
-        const entry = JSON.parse(line) as { ts?: number };
-        if (!entry.ts) continue;
-        if (minTs === null || entry.ts < minTs) {
-          minTs = entry.ts;
-        }
-      } catch {
-        // Skip malformed lines
-      }
-    }
-    return minTs;
-  } catch {
-    return null;
-  }
-}
-
-export async function collectCodexUsageData(year: number): Promise<CodexUsageData> {
-  const files = await listAllCodexSessionFiles();
-  const sessions: SessionUsage[] = [];
+export async function getCodexFirstPromptTimestamp(codexHomes: string[]): Promise<number | null> {
+  let minTs: number | null = null;
 
-  for (const filePath of files) {
-    let fileContents = "";
+  for (const codexHome of codexHomes) {
     try {
-      fileContents = await readFile(filePath, "utf8");
-    } catch {
-      continue;
-    }
-
-    if (!fileContents) {
-      continue;
-    }
-
-    let previousTotals: RawUsage | null = null;
-    let currentModel: string | undefined;
-    let currentModelIsFallback = false;
-    let legacyFallbackUsed = false;
-    let sessionDate: Date | null = null;
-    let sessionCwd: string | undefined;
-    let sessionId: string | undefined;
-    let forkedFromId: string | undefined;
-    const userMessages: SessionUserMessage[] = [];
-    const sessionEvents: CodexUsageEvent[] = [];
-
-    for (const line of fileContents.split("\n")) {
-      const trimmed = line.trim();
-      if (!trimmed) continue;
-      let entry: any;
-      try {
-        entry = JSON.parse(trimmed);
-      } catch {
-        continue;
-      }
-
-      const entryType = entry?.type;
-
-      if (entryType === "session_meta") {
-        const metaPayload = entry?.payload;
-        const sessionTimestamp = entry?.payload?.timestamp ?? entry?.timestamp;
-        if (sessionTimestamp) {
-          const parsedDate = new Date(sessionTimestamp);
-          if (!sessionDate || parsedDate < sessionDate) {
-            sessionDate = parsedDate;
-          }
-        }
-        const cwd = entry?.payload?.cwd;
-        if (cwd) {
-          sessionCwd = cwd;
-        }
-        if (!sessionId) {
-          const parsedSessionId = asNonEmptyString(metaPayload?.id);
-          if (parsedSessionId) {
-            sessionId = parsedSessionId;
-          }
-        }
-        if (!forkedFromId) {
-          const parsedForkedFromId = asNonEmptyString(metaPayload?.forked_from_id);
-          if (parsedForkedFromId) {
-            forkedFromId = parsedForkedFromId;
-          }
-        }
-        continue;
-      }
-
-      if (entryType === "turn_context") {
-        const model = extractModel(entry?.payload);
-        if (model) {
-          currentModel = model;
-          currentModelIsFallback = false;
+      for await (const entry of readJsonLines(join(codexHome, HISTORY_FILE))) {
+        const ts = (entry as { ts?: number } | null)?.ts;
+        if (!ts) continue;
+        if (minTs === null || ts < minTs) {
+          minTs = ts;
         }
-        continue;
       }
+    } catch {
+      // Missing or unreadable history
+    }
+  }
 
-      if (entryType === "event_msg") {
-        const payload = entry?.payload;
-        if (payload?.type === "user_message") {
-          const timestamp = entry?.timestamp;
-          if (timestamp && isTimestampInYear(timestamp, year)) {
-            userMessages.push({
-              timestamp,
-              signature: createUserMessageSignature(payload),
-            });
-          }
-          continue;
-        }
-
-        if (payload?.type !== "token_count") {
-          continue;
-        }
-
-        const timestamp = entry?.timestamp;
-        if (!timestamp) continue;
-        const inTargetYear = isTimestampInYear(timestamp, year);
-
-        const info = payload?.info;
-        const lastUsage = normalizeRawUsage(info?.last_token_usage);
-        const totalUsage = normalizeRawUsage(info?.total_token_usage);
-
-        let raw = lastUsage;
-        if (!raw && totalUsage) {
-          raw = subtractRawUsage(totalUsage, previousTotals);
-        }
-
-        if (totalUsage) {
-          previousTotals = totalUsage;
-        }
-
-        if (!raw) continue;
-
-        const delta = convertToDelta(raw);
-        if (
-          delta.inputTokens === 0 &&
-          delta.cachedInputTokens === 0 &&
-          delta.outputTokens === 0 &&
-          delta.reasoningOutputTokens === 0
-        ) {
-          continue;
-        }
-
-        const extractedModel = extractModel({ ...payload, info });
-        let isFallback = false;
-        if (extractedModel) {
-          currentModel = extractedModel;
-          currentModelIsFallback = false;
-        }
-
-        let model = extractedModel ?? currentModel;
-        if (!model) {
-          model = LEGACY_FALLBACK_MODEL;
-          isFallback = true;
-          legacyFallbackUsed = true;
-          currentModel = model;
-          currentModelIsFallback = true;
-        } else if (!extractedModel && currentModelIsFallback) {
-          isFallback = true;
-        }
-
-        if (!inTargetYear) {
-          continue;
-        }
+  return minTs;
+}
 
-        sessionEvents.push({
-          timestamp,
-          model,
-          inputTokens: delta.inputTokens,
-          cachedInputTokens: delta.cachedInputTokens,
-          outputTokens: delta.outputTokens,
-          reasoningOutputTokens: delta.reasoningOutputTokens,
-          totalTokens: delta.totalTokens,
-        });
-
-        if (isFallback) {
-          // No-op for now; kept for parity with ccusage
-        }
-      }
-    }
+export async function collectCodexUsageData({
+  range,
+  codexHomes,
+  useCache = true,
+  projectMapPath,
+  timeZone = resolveTimeZone(),
+  idleGapMinutes = DEFAULT_IDLE_GAP_MINUTES,
+  analyzePrompts = false,
+}: CollectOptions): Promise<CodexUsageData> {
+  const files = await listAllCodexSessionFiles(codexHomes);
+  const cache = useCache ? await loadFileCache<ParsedSession>(SESSION_CACHE_NAME, SESSION_CACHE_VERSION) : null;
+  const parsedSessions = await mapWithConcurrency(files, FILE_CONCURRENCY, (filePath) =>
+    loadParsedSession(filePath, cache)
+  );
 
-    if (legacyFallbackUsed) {
-      // ignore - best-effort
+  const sessions: SessionUsage[] = [];
+  const getDateKeyOf = createDateKeyResolver(timeZone);
+  files.forEach((filePath, index) => {
+    const parsed = parsedSessions[index];
+    if (parsed) {
+      sessions.push(createSessionUsage(filePath, parsed, range, getDateKeyOf));
     }
+  });
 
-    sessions.push({
-      filePath,
-      cwd: sessionCwd,
-      sessionId,
-      forkedFromId,
-      sessionDate,
-      hasYearActivity: userMessages.length > 0 || sessionEvents.length > 0,
-      userMessages,
-      messageSignatures: userMessages.map((message) => message.signature),
-      events: sessionEvents,
-      tokenSignatures: sessionEvents.map(createTokenEventSignature),
-    });
+  if (cache) {
+    // Forget rollouts that were deleted from the homes we just scanned
+    const scanned = new Set(files);
+    pruneFileCache(cache, (path) => scanned.has(path) || !codexHomes.some((home) => path.startsWith(`${home}${sep}`)));
+    await saveFileCache(cache);
   }
 
+  const projectIdentities = await resolveSessionProjects(sessions, projectMapPath);
+
   const events: CodexUsageEvent[] = [];
+  const toolCalls: CodexToolCall[] = [];
+  const turns: CodexTurn[] = [];
+  const rateLimits = new Map<string, RateLimitSnapshot>();
+  const codeChanges = createCodeChanges();
+  const time: CodexTimeUsage = { activeMs: 0, wallClockMs: 0, sessions: 0, longestSession: null, dailyActiveMs: new Map() };
+  const idleGapMs = idleGapMinutes * 60 * 1000;
+  const context = createContextUsage();
   const dailyActivity = new Map<string, number>();
-  const projects = new Set<string>();
+  const monthlySessions = new Map<string, number>();
+  const dailySessions = new Map<string, number>();
+  const modelMessages = new Map<string, number>();
+  const hourlyActivity: number[] = new Array(24).fill(0);
+  const weekdayHourActivity: number[][] = Array.from({ length: 7 }, () => new Array(24).fill(0));
+  const projects = new Map<string, CodexProjectUsage>();
+  const clients = new Map<string, CodexClientUsage>();
+  const cliVersions = new Map<string, CodexCliVersionUsage>();
+  // Counted prompts per rollout, as timestamp + signature keys
+  const promptKeysByFile = new Map<string, Set<string>>();
   let totalMessages = 0;
   let totalSessions = 0;
   let earliestSessionDate: Date | null = null;
   const priorSessionsByCwd = new Map<string, CwdDedupIndex>();
-  const sessionsById = new Map<string, SessionDedupSignatures>();
+  const sessionsById = new Map<string, SessionCopyState>();
 
   sessions.sort(compareSessionsByDate);
 
@@ -313,10 +362,31 @@ export async function collectCodexUsageData(year: number): Promise<CodexUsageDat
       earliestSessionDate = session.sessionDate;
     }
 
-    if (session.hasYearActivity) {
+    // The same rollout can show up in several Codex homes (e.g. a synced copy from another machine)
+    const earlierCopy = session.sessionId ? sessionsById.get(session.sessionId) : undefined;
+
+    const projectIdentity = session.hasRangeActivity ? projectIdentities.get(getProjectLookupKey(session)) : undefined;
+    const project = projectIdentity ? getOrCreateProjectUsage(projects, projectIdentity) : undefined;
+    const originator = session.originator ?? UNKNOWN_ORIGINATOR;
+    const client = session.hasRangeActivity ? getOrCreateClientUsage(clients, originator) : undefined;
+
+    // Counted once, by the first copy that has activity in the range
+    const countSession = session.hasRangeActivity && !earlierCopy?.countedAsSession;
+    if (countSession) {
       totalSessions += 1;
-      if (session.cwd) {
-        projects.add(session.cwd);
+      const monthKey = getSessionMonthKey(session, timeZone);
+      monthlySessions.set(monthKey, (monthlySessions.get(monthKey) || 0) + 1);
+      for (const dateKey of getSessionDateKeys(session, getDateKeyOf)) {
+        dailySessions.set(dateKey, (dailySessions.get(dateKey) || 0) + 1);
+      }
+      if (project) {
+        project.sessions += 1;
+      }
+      if (client) {
+        client.sessions += 1;
+      }
+      if (session.cliVersion) {
+        addSessionToCliVersion(cliVersions, session);
       }
     }
 
@@ -324,7 +394,10 @@ export async function collectCodexUsageData(year: number): Promise<CodexUsageDat
     let tokenStartIndex = 0;
     const parentSession = session.forkedFromId ? sessionsById.get(session.forkedFromId) : undefined;
 
-    if (parentSession) {
+    if (earlierCopy) {
+      messageStartIndex = commonPrefixLength(session.messageSignatures, earlierCopy.messageSignatures);
+      tokenStartIndex = commonPrefixLength(session.tokenSignatures, earlierCopy.tokenSignatures);
+    } else if (parentSession) {
       const messageOverlap = commonPrefixLength(session.messageSignatures, parentSession.messageSignatures);
       messageStartIndex = messageOverlap;
 
@@ -367,27 +440,166 @@ export async function collectCodexUsageData(year: number): Promise<CodexUsageDat
       }
     }
 
-    for (const message of session.userMessages.slice(messageStartIndex)) {
+    const newMessages = session.userMessages.slice(messageStartIndex);
+    if (analyzePrompts && newMessages.length > 0) {
+      promptKeysByFile.set(session.filePath, new Set(newMessages.map(getPromptKey)));
+    }
+
+    for (const message of newMessages) {
       totalMessages += 1;
-      const dateKey = formatDateKey(new Date(message.timestamp));
+      // Messages were range-filtered in createSessionUsage, so the timestamp is valid
+      const messageDate = new Date(message.timestamp);
+      const dateKey = getDateKeyOf(messageDate.getTime());
       dailyActivity.set(dateKey, (dailyActivity.get(dateKey) || 0) + 1);
+
+      const { hour, weekday } = getZonedParts(messageDate, timeZone);
+      hourlyActivity[hour] += 1;
+      weekdayHourActivity[weekday][hour] += 1;
+
+      if (project) {
+        project.messages += 1;
+        project.activeDays.add(dateKey);
+        touchProjectUsage(project, messageDate);
+      }
+      if (client) {
+        client.messages += 1;
+      }
+    }
+
+    // Rollouts only grow, so a synced copy shares a prefix with the copies counted before it and only adds
+    // what comes after that. For forks, entries made before the first newly counted message came along with
+    // the copied prefix.
+    const firstNewMessage = session.userMessages[messageStartIndex];
+    const forkCutoff =
+      messageStartIndex === 0 ? -Infinity : firstNewMessage ? Date.parse(firstNewMessage.timestamp) : Infinity;
+    const takeNew = <T>(kind: CopiedEntryKind, entries: T[], getTimestamp: (entry: T) => string): T[] =>
+      earlierCopy
+        ? entries.slice(earlierCopy.counted[kind])
+        : entries.filter((entry) => Date.parse(getTimestamp(entry)) >= forkCutoff);
+
+    toolCalls.push(...takeNew("toolCalls", session.toolCalls, (toolCall) => toolCall.timestamp));
+    turns.push(...takeNew("turns", session.turns, (turn) => turn.timestamp));
+
+    for (const snapshot of session.rateLimits) {
+      rateLimits.set(snapshot.timestamp, snapshot);
+    }
+
+    const activityCutoff = earlierCopy ? earlierCopy.lastCountedMs + 1 : forkCutoff;
+    const sessionActivity = trimActivitySegments(session.activity, activityCutoff);
+    // A synced copy's newer entries extend the session measured from the earlier copy, gap included
+    const measuredBefore = earlierCopy?.time;
+    const sessionTime = measureSessionTime(
+      measuredBefore ? [[earlierCopy.lastCountedMs, 0], ...sessionActivity] : sessionActivity,
+      idleGapMs,
+      timeZone
+    );
+    const measured =
+      measuredBefore ??
+      (sessionActivity.length > 0
+        ? { activeMs: 0, wallClockMs: 0, startedAt: new Date(sessionActivity[0][0]) }
+        : undefined);
+    const totalTime = measured && {
+      activeMs: measured.activeMs + sessionTime.activeMs,
+      wallClockMs: measured.wallClockMs + sessionTime.wallClockMs,
+      startedAt: measured.startedAt,
+    };
+    if (totalTime && sessionTime.wallClockMs > 0) {
+      if (!measuredBefore?.wallClockMs) {
+        time.sessions += 1;
+      }
+      time.activeMs += sessionTime.activeMs;
+      time.wallClockMs += sessionTime.wallClockMs;
+      for (const [dateKey, activeMs] of sessionTime.dailyActiveMs) {
+        time.dailyActiveMs.set(dateKey, (time.dailyActiveMs.get(dateKey) || 0) + activeMs);
+      }
+      if (!time.longestSession || totalTime.activeMs > time.longestSession.activeMs) {
+        time.longestSession = {
+          activeMs: totalTime.activeMs,
+          wallClockMs: totalTime.wallClockMs,
+          startedAt: totalTime.startedAt,
+          projectName: project?.name,
+        };
+      }
+    }
+
+    const newPatches = takeNew("patches", session.patches, (patch) => patch.timestamp);
+    if (newPatches.length > 0) {
+      // A synced copy's patches belong to a session that may already have applied some
+      const firstPatches = !earlierCopy?.appliedPatches;
+      addPatchesToCodeChanges(codeChanges, newPatches, firstPatches);
+      if (project) {
+        addPatchesToCodeChanges(project.codeChanges, newPatches, firstPatches);
+      }
     }
 
-    events.push(...session.events.slice(tokenStartIndex));
+    for (const model of getAnsweringModels(newMessages, session.events)) {
+      if (model) {
+        modelMessages.set(model, (modelMessages.get(model) || 0) + 1);
+      }
+    }
+
+    const newEvents = session.events.slice(tokenStartIndex);
+    const contextState = addSessionToContextUsage(
+      context,
+      newEvents,
+      takeNew("compactions", session.compactions, (timestamp) => timestamp),
+      takeNew("contextErrors", session.contextErrors, (timestamp) => timestamp),
+      project?.name,
+      earlierCopy?.context
+    );
+
+    for (const event of newEvents) {
+      if (project) {
+        touchProjectUsage(project, new Date(event.timestamp));
+      }
+      events.push({ ...event, projectId: project?.id, originator });
+    }
 
     if (session.sessionId) {
+      // Keep the longest copy so later copies only contribute what it hasn't seen
       sessionsById.set(session.sessionId, {
-        messageSignatures: session.messageSignatures,
-        tokenSignatures: session.tokenSignatures,
+        messageSignatures: longer(session.messageSignatures, earlierCopy?.messageSignatures),
+        tokenSignatures: longer(session.tokenSignatures, earlierCopy?.tokenSignatures),
+        counted: {
+          toolCalls: Math.max(session.toolCalls.length, earlierCopy?.counted.toolCalls ?? 0),
+          turns: Math.max(session.turns.length, earlierCopy?.counted.turns ?? 0),
+          patches: Math.max(session.patches.length, earlierCopy?.counted.patches ?? 0),
+          compactions: Math.max(session.compactions.length, earlierCopy?.counted.compactions ?? 0),
+          contextErrors: Math.max(session.contextErrors.length, earlierCopy?.counted.contextErrors ?? 0),
+        },
+        lastCountedMs: Math.max(
+          session.activity.length > 0 ? getSegmentEnd(session.activity[session.activity.length - 1]) : -Infinity,
+          earlierCopy?.lastCountedMs ?? -Infinity
+        ),
+        time: totalTime,
+        context: contextState,
+        appliedPatches: newPatches.length > 0 || !!earlierCopy?.appliedPatches,
+        countedAsSession: countSession || !!earlierCopy?.countedAsSession,
       });
     }
   }
 
   events.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
 
+  const prompts = analyzePrompts ? await tallyPrompts(promptKeysByFile) : null;
+
   return {
     events,
+    toolCalls,
+    turns,
+    rateLimits: Array.from(rateLimits.values()).sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp)),
+    codeChanges,
+    time,
+    context,
+    clients,
+    cliVersions,
+    prompts,
     dailyActivity,
+    modelMessages,
+    dailySessions,
+    monthlySessions,
+    hourlyActivity,
+    weekdayHourActivity,
     totalMessages,
     totalSessions,
     projects,
@@ -395,6 +607,384 @@ export async function collectCodexUsageData(year: number): Promise<CodexUsageDat
   };
 }
 
+/**
+ * Model of the first token event after each prompt, or of the session's last one when a prompt went unanswered.
+ * Prompts and events are both in time order, so a single index walks the events alongside the prompts.
+ */
+function getAnsweringModels(messages: SessionUserMessage[], events: CodexUsageEvent[]): Array<string | undefined> {
+  let answerIndex = 0;
+  return messages.map((message) => {
+    const sentAt = Date.parse(message.timestamp);
+    while (answerIndex < events.length && Date.parse(events[answerIndex].timestamp) < sentAt) {
+      answerIndex += 1;
+    }
+    return (events[answerIndex] ?? events[events.length - 1])?.model;
+  });
+}
+
+/** Days in the range a session sent a message or spent tokens on */
+function getSessionDateKeys(session: SessionUsage, getDateKeyOf: (epochMs: number) => string): Set<string> {
+  return new Set(
+    [...session.userMessages, ...session.events].map((entry) => getDateKeyOf(Date.parse(entry.timestamp)))
+  );
+}
+
+/** Month ("2026-03") of a session's first message or token event in the range */
+function getSessionMonthKey(session: SessionUsage, timeZone: string): string {
+  const starts = [session.userMessages[0]?.timestamp, session.events[0]?.timestamp]
+    .filter((timestamp): timestamp is string => timestamp !== undefined)
+    .map((timestamp) => Date.parse(timestamp));
+  return getDateKey(new Date(Math.min(...starts)), timeZone).slice(0, 7);
+}
+
+/**
+ * Read the text of the counted prompts straight from the rollouts. Kept out of
+ * ParsedSession so prompt text never lands in the parse cache.
+ */
+async function tallyPrompts(promptKeysByFile: Map<string, Set<string>>): Promise<PromptTally> {
+  const tally = createPromptTally();
+  await mapWithConcurrency(Array.from(promptKeysByFile), FILE_CONCURRENCY, async ([filePath, keys]) => {
+    try {
+      for await (const entry of readJsonLines(filePath)) {
+        const payload = entry?.payload;
+        if (entry?.type !== "event_msg" || payload?.type !== "user_message" || !entry.timestamp) continue;
+        const key = getPromptKey({ timestamp: entry.timestamp, signature: createUserMessageSignature(payload) });
+        if (keys.delete(key)) {
+          addPromptToTally(tally, payload, entry.timestamp);
+        }
+      }
+    } catch {
+      // The rollout vanished since it was parsed - skip its prompts
+    }
+  });
+  return tally;
+}
+
+function getPromptKey(message: SessionUserMessage): string {
+  return `${message.timestamp}\u0000${message.signature}`;
+}
+
+async function loadParsedSession(filePath: string, cache: FileCache<ParsedSession> | null): Promise<ParsedSession | null> {
+  let info: FileFingerprint;
+  try {
+    const fileStat = await stat(filePath);
+    info = { size: fileStat.size, mtimeMs: fileStat.mtimeMs };
+  } catch {
+    return null;
+  }
+
+  const cached = cache ? getCachedFile(cache, filePath, info) : undefined;
+  if (cached) {
+    return cached;
+  }
+
+  let parsed: ParsedSession;
+  try {
+    parsed = await parseSessionFile(filePath);
+  } catch {
+    return null;
+  }
+
+  if (cache) {
+    setCachedFile(cache, filePath, info, parsed);
+  }
+  return parsed;
+}
+
+/** Range-independent summary of one rollout file; this is what the parse cache stores */
+async function parseSessionFile(filePath: string): Promise<ParsedSession> {
+  let previousTotals: RawUsage | null = null;
+  let currentModel: string | undefined;
+  let currentModelIsFallback = false;
+  let currentSettings: TurnSettings = {};
+  let legacyFallbackUsed = false;
+  let sessionDate: Date | null = null;
+  let sessionCwd: string | undefined;
+  let sessionId: string | undefined;
+  let forkedFromId: string | undefined;
+  let repositoryUrl: string | undefined;
+  let originator: string | undefined;
+  let cliVersion: string | undefined;
+  const userMessages: SessionUserMessage[] = [];
+  const sessionEvents: CodexUsageEvent[] = [];
+  const toolCalls: CodexToolCall[] = [];
+  const turns: CodexTurn[] = [];
+  const rateLimits: RateLimitSnapshot[] = [];
+  const compactions: string[] = [];
+  const contextErrors: string[] = [];
+  // Patches announced by patch_apply_begin, keyed by call id until patch_apply_end reports the outcome
+  const appliedPatches = new Map<string, CodexPatch>();
+  // apply_patch inputs, only used for older rollouts that lack patch_apply events
+  const patchInputs: CodexPatch[] = [];
+  let sawPatchApplyEvents = false;
+  // Every timestamp in the rollout, for measuring time spent
+  const activity: number[] = [];
+
+  for await (const entry of readJsonLines(filePath)) {
+    const entryType = entry?.type;
+    const entryTime = typeof entry?.timestamp === "string" ? Date.parse(entry.timestamp) : NaN;
+    if (Number.isFinite(entryTime)) {
+      activity.push(entryTime);
+    }
+
+    if (entryType === "session_meta") {
+      const metaPayload = entry?.payload;
+      const sessionTimestamp = entry?.payload?.timestamp ?? entry?.timestamp;
+      if (sessionTimestamp) {
+        const parsedDate = new Date(sessionTimestamp);
+        if (!Number.isNaN(parsedDate.getTime()) && (!sessionDate || parsedDate < sessionDate)) {
+          sessionDate = parsedDate;
+        }
+      }
+      const cwd = entry?.payload?.cwd;
+      if (cwd) {
+        sessionCwd = cwd;
+      }
+      if (!sessionId) {
+        const parsedSessionId = asNonEmptyString(metaPayload?.id);
+        if (parsedSessionId) {
+          sessionId = parsedSessionId;
+        }
+      }
+      if (!forkedFromId) {
+        const parsedForkedFromId = asNonEmptyString(metaPayload?.forked_from_id);
+        if (parsedForkedFromId) {
+          forkedFromId = parsedForkedFromId;
+        }
+      }
+      if (!repositoryUrl) {
+        repositoryUrl = asNonEmptyString(metaPayload?.git?.repository_url);
+      }
+      if (!originator) {
+        originator = asNonEmptyString(metaPayload?.originator);
+      }
+      if (!cliVersion) {
+        cliVersion = asNonEmptyString(metaPayload?.cli_version);
+      }
+      continue;
+    }
+
+    if (entryType === "response_item") {
+      const toolCall = parseToolCall(entry?.payload);
+      const timestamp = entry?.timestamp;
+      if (toolCall && timestamp) {
+        toolCalls.push({ timestamp, ...toolCall });
+        const patch = parseApplyPatchInput(getApplyPatchInput(entry.payload), sessionCwd);
+        if (patch) {
+          patchInputs.push({ timestamp, ...patch });
+        }
+      }
+      continue;
+    }
+
+    if (entryType === "compacted") {
+      if (entry?.timestamp) {
+        compactions.push(entry.timestamp);
+      }
+      continue;
+    }
+
+    if (entryType === "turn_context") {
+      const model = extractModel(entry?.payload);
+      if (model) {
+        currentModel = model;
+        currentModelIsFallback = false;
+      }
+      currentSettings = parseTurnSettings(entry?.payload);
+      if (entry?.timestamp) {
+        turns.push({ timestamp: entry.timestamp, ...currentSettings });
+      }
+      continue;
+    }
+
+    if (entryType === "event_msg") {
+      const payload = entry?.payload;
+      if (payload?.type === "user_message") {
+        const timestamp = entry?.timestamp;
+        if (timestamp) {
+          userMessages.push({
+            timestamp,
+            signature: createUserMessageSignature(payload),
+          });
+        }
+        continue;
+      }
+
+      if (payload?.type === "patch_apply_begin") {
+        sawPatchApplyEvents = true;
+        const patch = parsePatchChanges(payload.changes, sessionCwd);
+        if (patch && entry?.timestamp) {
+          appliedPatches.set(asNonEmptyString(payload.call_id) ?? `#${appliedPatches.size}`, {
+            timestamp: entry.timestamp,
+            ...patch,
+          });
+        }
+        continue;
+      }
+
+      if (payload?.type === "error" || payload?.type === "stream_error") {
+        if (entry?.timestamp && isContextWindowError(payload.message)) {
+          contextErrors.push(entry.timestamp);
+        }
+        continue;
+      }
+
+      if (payload?.type === "patch_apply_end") {
+        sawPatchApplyEvents = true;
+        const callId = asNonEmptyString(payload.call_id);
+        if (callId && payload.success === false) {
+          appliedPatches.delete(callId);
+        }
+        continue;
+      }
+
+      if (payload?.type !== "token_count") {
+        continue;
+      }
+
+      const timestamp = entry?.timestamp;
+      if (!timestamp) continue;
+
+      // Rate limits can arrive without token usage (e.g. right after a turn fails on a limit)
+      const rateLimitSnapshot = parseRateLimits(payload?.rate_limits, timestamp);
+      if (rateLimitSnapshot) {
+        rateLimits.push(rateLimitSnapshot);
+      }
+
+      const info = payload?.info;
+      const lastUsage = normalizeRawUsage(info?.last_token_usage);
+      const totalUsage = normalizeRawUsage(info?.total_token_usage);
+
+      let raw = lastUsage;
+      if (!raw && totalUsage) {
+        raw = subtractRawUsage(totalUsage, previousTotals);
+      }
+
+      if (totalUsage) {
+        previousTotals = totalUsage;
+      }
+
+      if (!raw) continue;
+
+      const delta = convertToDelta(raw);
+      if (
+        delta.inputTokens === 0 &&
+        delta.cachedInputTokens === 0 &&
+        delta.outputTokens === 0 &&
+        delta.reasoningOutputTokens === 0
+      ) {
+        continue;
+      }
+
+      const extractedModel = extractModel({ ...payload, info });
+      let isFallback = false;
+      if (extractedModel) {
+        currentModel = extractedModel;
+        currentModelIsFallback = false;
+      }
+
+      let model = extractedModel ?? currentModel;
+      if (!model) {
+        model = LEGACY_FALLBACK_MODEL;
+        isFallback = true;
+        legacyFallbackUsed = true;
+        currentModel = model;
+        currentModelIsFallback = true;
+      } else if (!extractedModel && currentModelIsFallback) {
+        isFallback = true;
+      }
+
+      const event: CodexUsageEvent = {
+        timestamp,
+        model,
+        inputTokens: delta.inputTokens,
+        cachedInputTokens: delta.cachedInputTokens,
+        outputTokens: delta.outputTokens,
+        reasoningOutputTokens: delta.reasoningOutputTokens,
+        totalTokens: delta.totalTokens,
+        settings: currentSettings,
+      };
+      // Only the last request's usage says how full the context is; running totals don't
+      const contextWindow = ensureNumber(info?.model_context_window);
+      if (lastUsage && contextWindow > 0) {
+        event.contextTokens = lastUsage.total_tokens;
+        event.contextWindow = contextWindow;
+      }
+      sessionEvents.push(event);
+
+      if (isFallback) {
+        // No-op for now; kept for parity with ccusage
+      }
+    }
+  }
+
+  if (legacyFallbackUsed) {
+    // ignore - best-effort
+  }
+
+  return {
+    cwd: sessionCwd,
+    sessionId,
+    forkedFromId,
+    repositoryUrl,
+    originator,
+    cliVersion,
+    startedAt: sessionDate ? sessionDate.toISOString() : null,
+    userMessages,
+    events: sessionEvents,
+    toolCalls,
+    turns,
+    rateLimits,
+    compactions,
+    contextErrors,
+    patches: sawPatchApplyEvents ? Array.from(appliedPatches.values()) : patchInputs,
+    activity: toActivitySegments(Array.from(new Set(activity)).sort((a, b) => a - b)),
+  };
+}
+
+function createSessionUsage(
+  filePath: string,
+  parsed: ParsedSession,
+  range: DateRange,
+  getDateKeyOf: (epochMs: number) => string
+): SessionUsage {
+  const inRange = (timestamp: string) => isTimestampInRange(timestamp, range, getDateKeyOf);
+  const userMessages = parsed.userMessages.filter((message) => inRange(message.timestamp));
+  const events = parsed.events.filter((event) => inRange(event.timestamp));
+  const toolCalls = parsed.toolCalls.filter((toolCall) => inRange(toolCall.timestamp));
+  const turns = parsed.turns.filter((turn) => inRange(turn.timestamp));
+  const rateLimits = parsed.rateLimits.filter((snapshot) => inRange(snapshot.timestamp));
+  const compactions = parsed.compactions.filter(inRange);
+  const contextErrors = parsed.contextErrors.filter(inRange);
+  const patches = parsed.patches.filter((patch) => inRange(patch.timestamp));
+  // A segment never spans two dates, so its start decides whether it is in range
+  const activity = parsed.activity.filter(([start]) => isDateKeyInRange(getDateKeyOf(start), range));
+  const sessionDate = parsed.startedAt ? new Date(parsed.startedAt) : null;
+
+  return {
+    filePath,
+    cwd: parsed.cwd,
+    sessionId: parsed.sessionId,
+    forkedFromId: parsed.forkedFromId,
+    repositoryUrl: parsed.repositoryUrl,
+    originator: parsed.originator,
+    cliVersion: parsed.cliVersion,
+    sessionDate,
+    hasRangeActivity: userMessages.length > 0 || events.length > 0,
+    userMessages,
+    messageSignatures: userMessages.map((message) => message.signature),
+    events,
+    tokenSignatures: events.map(createTokenEventSignature),
+    toolCalls,
+    turns,
+    rateLimits,
+    compactions,
+    contextErrors,
+    patches,
+    activity,
+  };
+}
+
 type RawUsage = {
   input_tokens: number;
   cached_input_tokens: number;
@@ -413,23 +1003,80 @@ type SessionDedupSignatures = {
   tokenSignatures: string[];
 };
 
+type CopiedEntryKind = "toolCalls" | "turns" | "patches" | "compactions" | "contextErrors";
+
+type SessionCopyState = SessionDedupSignatures & {
+  /** In-range entries of each kind counted from the copies of the session so far */
+  counted: Record<CopiedEntryKind, number>;
+  /** Latest in-range timestamp (epoch ms) counted from any copy of the session */
+  lastCountedMs: number;
+  /** Whether a copy so far had activity in the range and was counted as a session */
+  countedAsSession: boolean;
+  /** Time measured over all copies so far */
+  time?: { activeMs: number; wallClockMs: number; startedAt: Date };
+  context: SessionContextState;
+  /** Whether a copy so far added patches to the code changes */
+  appliedPatches: boolean;
+};
+
+/** Context entries counted from the copies of a session so far, and what they measured */
+type SessionContextState = {
+  samples: ContextSample[];
+  compactions: string[];
+  contextErrors: string[];
+  measured: SessionContext | null;
+};
+
 type CwdDedupIndex = {
   messageCandidatesByPrefix: Map<string, string[][]>;
   tokenCandidatesByPrefix: Map<string, string[][]>;
 };
 
+type ParsedSession = {
+  cwd?: string;
+  sessionId?: string;
+  forkedFromId?: string;
+  repositoryUrl?: string;
+  originator?: string;
+  cliVersion?: string;
+  startedAt: string | null;
+  userMessages: SessionUserMessage[];
+  events: CodexUsageEvent[];
+  toolCalls: CodexToolCall[];
+  turns: CodexTurn[];
+  rateLimits: RateLimitSnapshot[];
+  /** Timestamps of "compacted" entries */
+  compactions: string[];
+  /** Timestamps of errors saying the conversation no longer fits the context window */
+  contextErrors: string[];
+  patches: CodexPatch[];
+  /** When the rollout's entries were written, merged into sorted segments */
+  activity: ActivitySegment[];
+};
+
 type SessionUsage = SessionDedupSignatures & {
   filePath: string;
   cwd?: string;
   sessionId?: string;
   forkedFromId?: string;
+  repositoryUrl?: string;
+  originator?: string;
+  cliVersion?: string;
   sessionDate: Date | null;
-  hasYearActivity: boolean;
+  hasRangeActivity: boolean;
   userMessages: SessionUserMessage[];
   events: CodexUsageEvent[];
+  toolCalls: CodexToolCall[];
+  turns: CodexTurn[];
+  rateLimits: RateLimitSnapshot[];
+  compactions: string[];
+  contextErrors: string[];
+  patches: CodexPatch[];
+  activity: ActivitySegment[];
 };
 
 const LEGACY_FALLBACK_MODEL = "gpt-5";
+const UNKNOWN_ORIGINATOR = "unknown";
 const FORK_PREFIX_MIN_MATCH = 3;
 
 function ensureNumber(value: unknown): number {
@@ -464,7 +1111,7 @@ function subtractRawUsage(current: RawUsage, previous: RawUsage | null): RawUsag
   };
 }
 
-function convertToDelta(raw: RawUsage): Omit<CodexUsageEvent, "timestamp" | "model"> {
+function convertToDelta(raw: RawUsage): Omit<CodexUsageEvent, "timestamp" | "model" | "settings"> {
   const total = raw.total_tokens > 0 ? raw.total_tokens : raw.input_tokens + raw.output_tokens;
   const cached = Math.min(raw.cached_input_tokens, raw.input_tokens);
   return {
@@ -516,12 +1163,17 @@ function createUserMessageSignature(payload: Record<string, unknown>): string {
   const textElements = Array.isArray(payload.text_elements) ? payload.text_elements : [];
   const imageCount = Array.isArray(payload.images) ? payload.images.length : 0;
   const localImageCount = Array.isArray(payload.local_images) ? payload.local_images.length : 0;
-  return JSON.stringify({
-    message,
-    textElements,
-    imageCount,
-    localImageCount,
-  });
+  // Hashed so the parse cache never stores prompt text
+  return createHash("sha1")
+    .update(
+      JSON.stringify({
+        message,
+        textElements,
+        imageCount,
+        localImageCount,
+      })
+    )
+    .digest("hex");
 }
 
 function createTokenEventSignature(event: CodexUsageEvent): string {
@@ -608,6 +1260,188 @@ function fingerprintSignature(signature: string): string {
   return `${start}#${signature.length}#${end}`;
 }
 
+/** Resolve each distinct (cwd, remote) pair once; this touches the filesystem to find repository roots */
+async function resolveSessionProjects(
+  sessions: SessionUsage[],
+  projectMapPath: string | undefined
+): Promise<Map<string, ProjectIdentity>> {
+  const overrides = await loadProjectOverrides(projectMapPath);
+  const identities = new Map<string, ProjectIdentity>();
+
+  for (const session of sessions) {
+    if (!session.hasRangeActivity || !session.cwd) continue;
+    const key = getProjectLookupKey(session);
+    if (!identities.has(key)) {
+      identities.set(key, await resolveProject(session.cwd, session.repositoryUrl, overrides));
+    }
+  }
+
+  return identities;
+}
+
+function getProjectLookupKey(session: SessionUsage): string {
+  return `${session.cwd ?? ""}\u0000${session.repositoryUrl ?? ""}`;
+}
+
+function getOrCreateProjectUsage(
+  projects: Map<string, CodexProjectUsage>,
+  identity: ProjectIdentity
+): CodexProjectUsage {
+  const existing = projects.get(identity.id);
+  if (existing) return existing;
+  const fresh: CodexProjectUsage = {
+    ...identity,
+    sessions: 0,
+    messages: 0,
+    codeChanges: createCodeChanges(),
+    activeDays: new Set(),
+    firstUsed: null,
+    lastUsed: null,
+  };
+  projects.set(identity.id, fresh);
+  return fresh;
+}
+
+function getOrCreateClientUsage(clients: Map<string, CodexClientUsage>, originator: string): CodexClientUsage {
+  const existing = clients.get(originator);
+  if (existing) return existing;
+  const fresh: CodexClientUsage = { originator, sessions: 0, messages: 0 };
+  clients.set(originator, fresh);
+  return fresh;
+}
+
+/** Count a session toward its CLI version, spanning the version's first and last use in range */
+function addSessionToCliVersion(cliVersions: Map<string, CodexCliVersionUsage>, session: SessionUsage): void {
+  const version = session.cliVersion;
+  const timestamps = [...session.userMessages, ...session.events].map((item) => Date.parse(item.timestamp));
+  if (!version || timestamps.length === 0) return;
+
+  const firstUsed = new Date(Math.min(...timestamps));
+  const lastUsed = new Date(Math.max(...timestamps));
+  const existing = cliVersions.get(version);
+  if (!existing) {
+    cliVersions.set(version, { version, sessions: 1, firstUsed, lastUsed });
+    return;
+  }
+  existing.sessions += 1;
+  if (firstUsed < existing.firstUsed) existing.firstUsed = firstUsed;
+  if (lastUsed > existing.lastUsed) existing.lastUsed = lastUsed;
+}
+
+function createCodeChanges(): CodexCodeChanges {
+  return { additions: 0, deletions: 0, files: new Set(), patches: 0, sessions: 0 };
+}
+
+/** Add one session's newly counted patches; `newSession` when none of the session's were counted before */
+function addPatchesToCodeChanges(codeChanges: CodexCodeChanges, patches: CodexPatch[], newSession: boolean): void {
+  for (const patch of patches) {
+    codeChanges.additions += patch.additions;
+    codeChanges.deletions += patch.deletions;
+    codeChanges.patches += 1;
+    for (const file of patch.files) {
+      codeChanges.files.add(file);
+    }
+  }
+  if (newSession) {
+    codeChanges.sessions += 1;
+  }
+}
+
+function createContextUsage(): CodexContextUsage {
+  return {
+    sessions: 0,
+    averageFillSum: 0,
+    peakFillSum: 0,
+    fullestSession: null,
+    ranOutSessions: 0,
+    autoCompactions: 0,
+    manualCompactions: 0,
+    fillBuckets: CONTEXT_FILL_BUCKETS.map(() => ({ requests: 0, inputTokens: 0, cachedInputTokens: 0 })),
+  };
+}
+
+/**
+ * Add one session's newly counted requests, compactions and context errors.
+ * A synced copy's entries are measured together with the earlier copies' and replace what those measured.
+ */
+function addSessionToContextUsage(
+  context: CodexContextUsage,
+  events: CodexUsageEvent[],
+  compactions: string[],
+  contextErrors: string[],
+  projectName: string | undefined,
+  earlier: SessionContextState | undefined
+): SessionContextState {
+  const newSamples: ContextSample[] = [];
+  for (const event of events) {
+    if (event.contextTokens === undefined || !event.contextWindow) continue;
+    newSamples.push({
+      timestamp: event.timestamp,
+      contextTokens: event.contextTokens,
+      contextWindow: event.contextWindow,
+      inputTokens: event.inputTokens,
+      cachedInputTokens: event.cachedInputTokens,
+    });
+  }
+
+  for (const sample of newSamples) {
+    const fill = getFillPercent(sample);
+    let bucketIndex = 0;
+    while (bucketIndex + 1 < CONTEXT_FILL_BUCKETS.length && fill >= CONTEXT_FILL_BUCKETS[bucketIndex + 1]) {
+      bucketIndex += 1;
+    }
+    const bucket = context.fillBuckets[bucketIndex];
+    bucket.requests += 1;
+    bucket.inputTokens += sample.inputTokens;
+    bucket.cachedInputTokens += sample.cachedInputTokens;
+  }
+
+  const state: SessionContextState = {
+    samples: earlier ? [...earlier.samples, ...newSamples] : newSamples,
+    compactions: earlier ? [...earlier.compactions, ...compactions] : compactions,
+    contextErrors: earlier ? [...earlier.contextErrors, ...contextErrors] : contextErrors,
+    measured: null,
+  };
+  const sessionContext = measureSessionContext(state.samples, state.compactions, state.contextErrors);
+  if (!sessionContext) return state;
+  state.measured = sessionContext;
+
+  const previous = earlier?.measured;
+  if (!previous) {
+    context.sessions += 1;
+  }
+  context.averageFillSum += sessionContext.averageFillPercent - (previous?.averageFillPercent ?? 0);
+  context.peakFillSum += sessionContext.peakFillPercent - (previous?.peakFillPercent ?? 0);
+  context.autoCompactions += sessionContext.autoCompactions - (previous?.autoCompactions ?? 0);
+  context.manualCompactions += sessionContext.manualCompactions - (previous?.manualCompactions ?? 0);
+  if (sessionContext.ranOut && !previous?.ranOut) {
+    context.ranOutSessions += 1;
+  }
+  if (!context.fullestSession || sessionContext.peakFillPercent > context.fullestSession.peakFillPercent) {
+    context.fullestSession = {
+      peakFillPercent: sessionContext.peakFillPercent,
+      startedAt: new Date(state.samples[0].timestamp),
+      projectName,
+    };
+  }
+
+  return state;
+}
+
+function touchProjectUsage(project: CodexProjectUsage, date: Date): void {
+  if (Number.isNaN(date.getTime())) return;
+  if (!project.firstUsed || date < project.firstUsed) {
+    project.firstUsed = date;
+  }
+  if (!project.lastUsed || date > project.lastUsed) {
+    project.lastUsed = date;
+  }
+}
+
+function longer(sequence: string[], other: string[] | undefined): string[] {
+  return other && other.length > sequence.length ? other : sequence;
+}
+
 function commonPrefixLength(left: string[], right: string[]): number {
   const limit = Math.min(left.length, right.length);
   let index = 0;
@@ -617,17 +1451,14 @@ function commonPrefixLength(left: string[], right: string[]): number {
   return index;
 }
 
-function isTimestampInYear(timestamp: string, year: number): boolean {
-  const date = new Date(timestamp);
-  if (Number.isNaN(date.getTime())) {
+function isTimestampInRange(
+  timestamp: string,
+  range: DateRange,
+  getDateKeyOf: (epochMs: number) => string
+): boolean {
+  const epochMs = Date.parse(timestamp);
+  if (Number.isNaN(epochMs)) {
     return false;
   }
-  return date.getFullYear() === year;
-}
-
-function formatDateKey(date: Date): string {
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, "0");
-  const day = String(date.getDate()).padStart(2, "0");
-  return `${year}-${month}-${day}`;
+  return isDateKeyInRange(getDateKeyOf(epochMs), range);
 }
@@ -0,0 +1,47 @@
+// Comparison - deltas between the stats of two ranges, e.g. this year against last year
+
+import type { CodexStats, ComparisonMetric, MetricDelta, StatsComparison } from "./types";
+
+const METRIC_VALUES: Record<ComparisonMetric, (stats: CodexStats) => number> = {
+  sessions: (stats) => stats.totalSessions,
+  messages: (stats) => stats.totalMessages,
+  tokens: (stats) => stats.totalTokens,
+  cost: (stats) => stats.totalCost,
+  projects: (stats) => stats.totalProjects,
+  streak: (stats) => stats.maxStreak,
+  activeDays: (stats) => stats.dailyActivity.size,
+  busiestDay: (stats) => stats.mostActiveDay?.count ?? 0,
+  activeHours: (stats) => stats.sessionTime.activeHours,
+  longestSession: (stats) => stats.sessionTime.longestSession?.activeMinutes ?? 0,
+  averageSession: (stats) => stats.sessionTime.averageSessionMinutes,
+  linesWritten: (stats) => stats.codeChanges.additions,
+  filesTouched: (stats) => stats.codeChanges.files,
+  toolCalls: (stats) => stats.totalToolCalls,
+};
+
+/** Compare `current` against `previous`, which should cover a range of the same length */
+export function compareStats(current: CodexStats, previous: CodexStats): StatsComparison {
+  const metrics = {} as Record<ComparisonMetric, MetricDelta>;
+  for (const [metric, getValue] of Object.entries(METRIC_VALUES) as [ComparisonMetric, (stats: CodexStats) => number][]) {
+    metrics[metric] = getDelta(getValue(current), getValue(previous));
+  }
+
+  const currentIds = new Set(current.models.map((model) => model.id));
+  const previousIds = new Set(previous.models.map((model) => model.id));
+
+  return {
+    range: previous.range,
+    metrics,
+    newModels: current.models.filter((model) => !previousIds.has(model.id)),
+    droppedModels: previous.models.filter((model) => !currentIds.has(model.id)),
+  };
+}
+
+function getDelta(current: number, previous: number): MetricDelta {
+  return {
+    current,
+    previous,
+    change: current - previous,
+    percentChange: previous !== 0 ? ((current - previous) / previous) * 100 : null,
+  };
+}
@@ -0,0 +1,71 @@
+// Context window - how full a session's context got, and what happened when it filled up
+
+/** A compaction right after a request that filled at least this much of the window is counted as automatic */
+export const AUTO_COMPACT_FILL_PERCENT = 80;
+
+/** Lower bounds (percent of the window) of the fill buckets the cached-input ratio is reported in */
+export const CONTEXT_FILL_BUCKETS = [0, 25, 50, 75];
+
+export interface ContextSample {
+  timestamp: string;
+  /** Tokens the request occupied (input plus output) */
+  contextTokens: number;
+  contextWindow: number;
+  inputTokens: number;
+  cachedInputTokens: number;
+}
+
+export interface SessionContext {
+  /** Mean and highest fill over the session's requests, in percent of the window */
+  averageFillPercent: number;
+  peakFillPercent: number;
+  autoCompactions: number;
+  manualCompactions: number;
+  /** The session filled the whole window or Codex reported that it no longer fit */
+  ranOut: boolean;
+}
+
+/**
+ * Measure a session from its requests, compaction timestamps and context-window errors (all sorted by time).
+ * Returns null for sessions that never reported a context window.
+ */
+export function measureSessionContext(
+  samples: ContextSample[],
+  compactions: string[],
+  contextErrors: string[]
+): SessionContext | null {
+  if (samples.length === 0) return null;
+
+  const fills = samples.map(getFillPercent);
+  const context: SessionContext = {
+    averageFillPercent: fills.reduce((sum, fill) => sum + fill, 0) / fills.length,
+    peakFillPercent: Math.max(...fills),
+    autoCompactions: 0,
+    manualCompactions: 0,
+    ranOut: contextErrors.length > 0 || fills.some((fill) => fill >= 100),
+  };
+
+  let sampleIndex = -1;
+  for (const compaction of compactions) {
+    const compactedAt = Date.parse(compaction);
+    while (sampleIndex + 1 < samples.length && Date.parse(samples[sampleIndex + 1].timestamp) <= compactedAt) {
+      sampleIndex += 1;
+    }
+    if (sampleIndex >= 0 && fills[sampleIndex] >= AUTO_COMPACT_FILL_PERCENT) {
+      context.autoCompactions += 1;
+    } else {
+      context.manualCompactions += 1;
+    }
+  }
+
+  return context;
+}
+
+export function getFillPercent(sample: ContextSample): number {
+  return (sample.contextTokens / sample.contextWindow) * 100;
+}
+
+/** Error messages Codex logs when a conversation no longer fits the model's window */
+export function isContextWindowError(message: unknown): boolean {
+  return typeof message === "string" && /context[ _](window|length)/i.test(message);
+}
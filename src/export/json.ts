@@ -0,0 +1,74 @@
+// JSON export - serializes CodexStats into a stable, versioned document
+
+import type { CodexStats } from "../types";
+
+/**
+ * Bump when a field is renamed or removed, or its meaning changes.
+ * Adding new fields is backwards compatible and does not require a bump.
+ */
+export const STATS_JSON_SCHEMA_VERSION = 1;
+
+/** JSON representation of a value: Maps become objects, Sets become arrays, Dates become ISO strings */
+export type Jsonified<T> = T extends Date
+  ? string
+  : T extends Map<unknown, infer V>
+  ? Record<string, Jsonified<V>>
+  : T extends Set<infer U>
+  ? Jsonified<U>[]
+  : T extends Array<infer U>
+  ? Jsonified<U>[]
+  : T extends object
+  ? { [K in keyof T]: Jsonified<T[K]> }
+  : T;
+
+export interface StatsJsonDocument {
+  schemaVersion: number;
+  generator: {
+    name: string;
+    version: string;
+  };
+  generatedAt: string;
+  stats: Jsonified<CodexStats>;
+}
+
+export function createStatsJsonDocument(stats: CodexStats, version: string): StatsJsonDocument {
+  return {
+    schemaVersion: STATS_JSON_SCHEMA_VERSION,
+    generator: {
+      name: "codex-wrapped-noyrlimit",
+      version,
+    },
+    generatedAt: new Date().toISOString(),
+    stats: toJsonValue(stats) as Jsonified<CodexStats>,
+  };
+}
+
+export function serializeStats(stats: CodexStats, version: string): string {
+  return `${JSON.stringify(createStatsJsonDocument(stats, version), null, 2)}\n`;
+}
+
+function toJsonValue(value: unknown): unknown {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+
+  if (value instanceof Map) {
+    // Sort keys so date-keyed maps come out in chronological order
+    const entries = Array.from(value.entries()).sort(([a], [b]) => String(a).localeCompare(String(b)));
+    return Object.fromEntries(entries.map(([key, entry]) => [String(key), toJsonValue(entry)]));
+  }
+
+  if (value instanceof Set) {
+    return Array.from(value).sort().map(toJsonValue);
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(toJsonValue);
+  }
+
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, toJsonValue(entry)]));
+  }
+
+  return value;
+}
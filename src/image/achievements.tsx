@@ -0,0 +1,86 @@
+import type { AchievementStats } from "../types";
+import { colors, typography, spacing, layout, components } from "./design-tokens";
+
+const MAX_BADGES = 8;
+
+/** The persona the strongest achievement stands for, next to a strip of every badge earned */
+export function AchievementsPanel({ achievements }: { achievements: AchievementStats }) {
+  return (
+    <div style={{ display: "flex", flexDirection: "row", gap: spacing[8], alignItems: "stretch" }}>
+      {achievements.persona && (
+        <div
+          style={{
+            display: "flex",
+            flexDirection: "column",
+            justifyContent: "space-between",
+            gap: spacing[3],
+            width: 420,
+            backgroundColor: colors.surface,
+            border: `1px solid ${colors.surfaceBorder}`,
+            borderRadius: layout.radius.lg,
+            padding: spacing[6],
+          }}
+        >
+          <span
+            style={{
+              fontSize: components.sectionHeader.fontSize,
+              fontWeight: components.sectionHeader.fontWeight,
+              color: components.sectionHeader.color,
+              letterSpacing: components.sectionHeader.letterSpacing,
+              textTransform: components.sectionHeader.textTransform,
+            }}
+          >
+            Persona
+          </span>
+          <span
+            style={{
+              fontSize: typography.size["2xl"],
+              fontWeight: typography.weight.bold,
+              color: colors.accent.primary,
+              lineHeight: typography.lineHeight.tight,
+            }}
+          >
+            {achievements.persona.name}
+          </span>
+          <span style={{ fontSize: typography.size.md, fontWeight: typography.weight.medium, color: colors.text.secondary }}>
+            {achievements.persona.description}
+          </span>
+        </div>
+      )}
+
+      <div
+        style={{
+          display: "flex",
+          flexDirection: "row",
+          flexWrap: "wrap",
+          alignContent: "flex-start",
+          gap: spacing[3],
+          flex: 1,
+        }}
+      >
+        {achievements.badges.slice(0, MAX_BADGES).map((badge, i) => (
+          <div
+            key={badge.id}
+            style={{
+              display: "flex",
+              flexDirection: "column",
+              gap: spacing[1],
+              backgroundColor: colors.surface,
+              border: `1px solid ${i === 0 ? colors.accent.primary : colors.surfaceBorder}`,
+              borderRadius: layout.radius.lg,
+              paddingTop: spacing[3],
+              paddingBottom: spacing[3],
+              paddingLeft: spacing[4],
+              paddingRight: spacing[4],
+            }}
+          >
+            <span style={{ fontSize: typography.size.md, fontWeight: typography.weight.semibold, color: colors.text.primary }}>
+              {badge.name}
+            </span>
+            <span style={{ fontSize: typography.size.xs, color: colors.text.muted }}>{badge.description}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
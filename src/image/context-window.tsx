@@ -0,0 +1,108 @@
+import type { ContextStats } from "../types";
+import { formatNumberFull } from "../utils/format";
+import { colors, typography, spacing, layout, components } from "./design-tokens";
+
+const BAR_HEIGHT = 8;
+
+/** Context fill and compactions next to the cached-input ratio at each fill level */
+export function ContextWindowPanel({ context }: { context: ContextStats }) {
+  const rows = [
+    { label: "Average fill", value: `${Math.round(context.averageFillPercent)}%` },
+    { label: "Average peak", value: `${Math.round(context.averagePeakFillPercent)}%` },
+    {
+      label: "Compactions",
+      value: `${formatNumberFull(context.autoCompactions)} auto · ${formatNumberFull(context.manualCompactions)} manual`,
+    },
+    { label: "Out of context", value: `${formatNumberFull(context.sessionsOutOfContext)} sessions` },
+  ];
+
+  return (
+    <div style={{ display: "flex", flexDirection: "row", gap: spacing[8] }}>
+      <Card title="Fill">
+        {rows.map((row) => (
+          <div key={row.label} style={{ display: "flex", justifyContent: "space-between", gap: spacing[4] }}>
+            <span style={{ fontSize: typography.size.md, fontWeight: typography.weight.medium, color: colors.text.tertiary }}>
+              {row.label}
+            </span>
+            <span style={{ fontSize: typography.size.md, fontWeight: typography.weight.semibold, color: colors.text.primary }}>
+              {row.value}
+            </span>
+          </div>
+        ))}
+      </Card>
+
+      <Card title="Cache Hits by Fill">
+        {context.cacheRatioByFill.map((bucket) => {
+          const ratio = (bucket.cachedInputRatio ?? 0) * 100;
+          return (
+            <div key={bucket.fromPercent} style={{ display: "flex", flexDirection: "row", alignItems: "center", gap: spacing[4] }}>
+              <span style={{ width: 110, fontSize: typography.size.md, fontWeight: typography.weight.medium, color: colors.text.tertiary }}>
+                {bucket.fromPercent}–{bucket.toPercent}%
+              </span>
+              <div
+                style={{
+                  display: "flex",
+                  flex: 1,
+                  height: BAR_HEIGHT,
+                  backgroundColor: colors.streak.empty,
+                  borderRadius: BAR_HEIGHT / 2,
+                }}
+              >
+                <div
+                  style={{
+                    width: `${bucket.cachedInputRatio === null ? 0 : Math.max(2, ratio)}%`,
+                    height: BAR_HEIGHT,
+                    backgroundColor: colors.accent.secondary,
+                    borderRadius: BAR_HEIGHT / 2,
+                  }}
+                />
+              </div>
+              <span
+                style={{
+                  width: 56,
+                  display: "flex",
+                  justifyContent: "flex-end",
+                  fontSize: typography.size.md,
+                  fontWeight: typography.weight.semibold,
+                  color: colors.text.primary,
+                }}
+              >
+                {bucket.cachedInputRatio === null ? "–" : `${Math.round(ratio)}%`}
+              </span>
+            </div>
+          );
+        })}
+      </Card>
+    </div>
+  );
+}
+
+function Card({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div
+      style={{
+        display: "flex",
+        flexDirection: "column",
+        gap: spacing[3],
+        flex: 1,
+        backgroundColor: colors.surface,
+        border: `1px solid ${colors.surfaceBorder}`,
+        borderRadius: layout.radius.lg,
+        padding: spacing[6],
+      }}
+    >
+      <span
+        style={{
+          fontSize: components.sectionHeader.fontSize,
+          fontWeight: components.sectionHeader.fontWeight,
+          color: components.sectionHeader.color,
+          letterSpacing: components.sectionHeader.letterSpacing,
+          textTransform: components.sectionHeader.textTransform,
+        }}
+      >
+        {title}
+      </span>
+      {children}
+    </div>
+  );
+}
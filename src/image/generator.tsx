@@ -2,7 +2,7 @@ import satori from "satori";
 import { Resvg, initWasm } from "@resvg/resvg-wasm";
 import resvgWasm from "@resvg/resvg-wasm/index_bg.wasm";
 import { WrappedTemplate } from "./template";
-import type { CodexStats } from "../types";
+import type { CodexStats, HeatmapMetric } from "../types";
 import { loadFonts } from "./fonts";
 import { layout } from "./design-tokens";
 
@@ -13,12 +13,17 @@ export interface GeneratedImage {
   displaySize: Buffer;
 }
 
-export async function generateImage(stats: CodexStats): Promise<GeneratedImage> {
+export interface ImageOptions {
+  /** Series the activity heatmap is colored by (default: messages) */
+  heatmapMetric?: HeatmapMetric;
+}
+
+export async function generateImage(stats: CodexStats, options: ImageOptions = {}): Promise<GeneratedImage> {
   await initWasm(Bun.file(resvgWasm).arrayBuffer());
 
-  const svg = await satori(<WrappedTemplate stats={stats} />, {
+  const svg = await satori(<WrappedTemplate stats={stats} heatmapMetric={options.heatmapMetric ?? "messages"} />, {
+    // Height follows the content; the template enforces the canvas height as a minimum
     width: layout.canvas.width,
-    height: layout.canvas.height,
     fonts: await loadFonts(),
   });
 
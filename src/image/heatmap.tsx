@@ -1,10 +1,14 @@
-import { generateWeeksForYear, getIntensityLevel } from "../utils/dates";
-import { colors, typography, spacing, components, HEATMAP_COLORS, STREAK_COLORS } from "./design-tokens";
+import type { DateRange } from "../types";
+import { generateWeeksForRange, getIntensityLevel, getTodayKey } from "../utils/dates";
+import { colors, typography, spacing, components, layout, HEATMAP_COLORS, STREAK_COLORS } from "./design-tokens";
 
 interface HeatmapProps {
   dailyActivity: Map<string, number>;
-  year: number;
+  range: DateRange;
+  timeZone: string;
   maxStreakDays?: Set<string>;
+  /** Names the series in the legend, e.g. "Tokens per day" */
+  legendLabel?: string;
 }
 
 interface MonthLabel {
@@ -18,16 +22,20 @@ const CELL_SIZE = components.heatmapCell.size;
 const CELL_GAP = components.heatmapCell.gap;
 const CELL_RADIUS = components.heatmapCell.borderRadius;
 
+// Ranges touching 54 calendar weeks would overflow the card at the default cell size
+const GRID_WIDTH = layout.canvas.width - layout.padding.horizontal * 2;
+
 const LEGEND_CELL_SIZE = components.legend.cellSize;
 const LEGEND_GAP = components.legend.gap;
 
-export function ActivityHeatmap({ dailyActivity, year, maxStreakDays }: HeatmapProps) {
-  const weeks = generateWeeksForYear(year);
+export function ActivityHeatmap({ dailyActivity, range, timeZone, maxStreakDays, legendLabel }: HeatmapProps) {
+  const weeks = generateWeeksForRange(range, getTodayKey(timeZone));
 
   const counts = Array.from(dailyActivity.values());
   const maxCount = counts.length > 0 ? Math.max(...counts) : 0;
 
-  const monthLabels = getMonthLabels(weeks, CELL_SIZE, CELL_GAP);
+  const cellSize = Math.min(CELL_SIZE, Math.floor(((GRID_WIDTH + CELL_GAP) / weeks.length - CELL_GAP) * 10) / 10);
+  const monthLabels = getMonthLabels(weeks, cellSize, CELL_GAP);
 
   return (
     <div
@@ -38,8 +46,14 @@ export function ActivityHeatmap({ dailyActivity, year, maxStreakDays }: HeatmapP
       }}
     >
       <MonthLabelsRow labels={monthLabels} />
-      <HeatmapGrid weeks={weeks} dailyActivity={dailyActivity} maxStreakDays={maxStreakDays} maxCount={maxCount} />
-      <HeatmapLegend />
+      <HeatmapGrid
+        weeks={weeks}
+        dailyActivity={dailyActivity}
+        maxStreakDays={maxStreakDays}
+        maxCount={maxCount}
+        cellSize={cellSize}
+      />
+      <HeatmapLegend label={legendLabel} />
     </div>
   );
 }
@@ -79,9 +93,10 @@ interface HeatmapGridProps {
   dailyActivity: Map<string, number>;
   maxStreakDays?: Set<string>;
   maxCount: number;
+  cellSize: number;
 }
 
-function HeatmapGrid({ weeks, dailyActivity, maxStreakDays, maxCount }: HeatmapGridProps) {
+function HeatmapGrid({ weeks, dailyActivity, maxStreakDays, maxCount, cellSize }: HeatmapGridProps) {
   return (
     <div
       style={{
@@ -93,7 +108,14 @@ function HeatmapGrid({ weeks, dailyActivity, maxStreakDays, maxCount }: HeatmapG
       }}
     >
       {weeks.map((week, weekIndex) => (
-        <WeekColumn key={weekIndex} week={week} dailyActivity={dailyActivity} maxStreakDays={maxStreakDays} maxCount={maxCount} />
+        <WeekColumn
+          key={weekIndex}
+          week={week}
+          dailyActivity={dailyActivity}
+          maxStreakDays={maxStreakDays}
+          maxCount={maxCount}
+          cellSize={cellSize}
+        />
       ))}
     </div>
   );
@@ -104,9 +126,10 @@ interface WeekColumnProps {
   dailyActivity: Map<string, number>;
   maxStreakDays?: Set<string>;
   maxCount: number;
+  cellSize: number;
 }
 
-function WeekColumn({ week, dailyActivity, maxStreakDays, maxCount }: WeekColumnProps) {
+function WeekColumn({ week, dailyActivity, maxStreakDays, maxCount, cellSize }: WeekColumnProps) {
   return (
     <div
       style={{
@@ -116,7 +139,14 @@ function WeekColumn({ week, dailyActivity, maxStreakDays, maxCount }: WeekColumn
       }}
     >
       {week.map((dateStr, dayIndex) => (
-        <DayCell key={dayIndex} dateStr={dateStr} dailyActivity={dailyActivity} maxStreakDays={maxStreakDays} maxCount={maxCount} />
+        <DayCell
+          key={dayIndex}
+          dateStr={dateStr}
+          dailyActivity={dailyActivity}
+          maxStreakDays={maxStreakDays}
+          maxCount={maxCount}
+          cellSize={cellSize}
+        />
       ))}
     </div>
   );
@@ -127,9 +157,10 @@ interface DayCellProps {
   dailyActivity: Map<string, number>;
   maxStreakDays?: Set<string>;
   maxCount: number;
+  cellSize: number;
 }
 
-function DayCell({ dateStr, dailyActivity, maxStreakDays, maxCount }: DayCellProps) {
+function DayCell({ dateStr, dailyActivity, maxStreakDays, maxCount, cellSize }: DayCellProps) {
   const count = dateStr ? dailyActivity.get(dateStr) || 0 : 0;
   const intensity = getIntensityLevel(count, maxCount) as keyof typeof HEATMAP_COLORS;
   const isStreakDay = dateStr && maxStreakDays?.has(dateStr);
@@ -139,8 +170,8 @@ function DayCell({ dateStr, dailyActivity, maxStreakDays, maxCount }: DayCellPro
   return (
     <div
       style={{
-        width: CELL_SIZE,
-        height: CELL_SIZE,
+        width: cellSize,
+        height: cellSize,
         backgroundColor: dateStr ? color : "transparent",
         borderRadius: CELL_RADIUS,
         display: "flex",
@@ -151,7 +182,7 @@ function DayCell({ dateStr, dailyActivity, maxStreakDays, maxCount }: DayCellPro
   );
 }
 
-function HeatmapLegend() {
+function HeatmapLegend({ label }: { label?: string }) {
   return (
     <div
       style={{
@@ -162,6 +193,20 @@ function HeatmapLegend() {
         marginTop: spacing[3],
       }}
     >
+      {label && (
+        <span
+          style={{
+            marginRight: spacing[2],
+            fontSize: components.legend.fontSize,
+            fontWeight: typography.weight.semibold,
+            color: colors.text.tertiary,
+            fontFamily: typography.fontFamily.mono,
+          }}
+        >
+          {label}
+        </span>
+      )}
+
       <span
         style={{
           fontSize: components.legend.fontSize,
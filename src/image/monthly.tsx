@@ -0,0 +1,67 @@
+import type { MonthlyStats } from "../types";
+import { formatCost, formatNumber } from "../utils/format";
+import { colors, typography, spacing } from "./design-tokens";
+
+const CHART_HEIGHT = 120;
+const COLUMN_GAP = 8;
+
+// Bottom to top; output includes reasoning tokens
+const SEGMENTS: Array<{ label: string; color: string; tokens: (month: MonthlyStats) => number }> = [
+  { label: "Cache Read", color: colors.streak.level4, tokens: (month) => month.cachedInputTokens },
+  {
+    label: "Input",
+    color: colors.accent.primary,
+    tokens: (month) => Math.max(0, month.inputTokens - month.cachedInputTokens),
+  },
+  { label: "Output", color: colors.accent.secondary, tokens: (month) => month.outputTokens },
+];
+
+/** Tokens per month stacked by type, labelled with the month's cost (or tokens when there is no cost) */
+export function MonthlyChart({ monthly, showCost }: { monthly: MonthlyStats[]; showCost: boolean }) {
+  const totals = monthly.map((month) => SEGMENTS.reduce((sum, segment) => sum + segment.tokens(month), 0));
+  const maxTotal = Math.max(...totals, 0);
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: spacing[2] }}>
+      <div style={{ display: "flex", flexDirection: "row", gap: spacing[6] }}>
+        {SEGMENTS.map((segment) => (
+          <div key={segment.label} style={{ display: "flex", flexDirection: "row", alignItems: "center", gap: spacing[2] }}>
+            <div style={{ width: 10, height: 10, backgroundColor: segment.color, borderRadius: 2 }} />
+            <span style={{ fontSize: typography.size.sm, color: colors.text.muted }}>{segment.label}</span>
+          </div>
+        ))}
+      </div>
+
+      <div style={{ display: "flex", flexDirection: "row", alignItems: "flex-end", gap: COLUMN_GAP }}>
+        {monthly.map((month, i) => {
+          const barHeight = maxTotal > 0 ? Math.round((totals[i] / maxTotal) * CHART_HEIGHT) : 0;
+          return (
+            <div key={month.month} style={{ display: "flex", flexDirection: "column", alignItems: "center", flex: 1, gap: spacing[1] }}>
+              <span style={{ fontSize: typography.size.xs, fontWeight: typography.weight.semibold, color: colors.text.secondary }}>
+                {totals[i] === 0 ? "" : showCost ? formatCost(month.cost) : formatNumber(month.totalTokens)}
+              </span>
+              <div style={{ display: "flex", flexDirection: "column-reverse", width: "100%", height: Math.max(2, barHeight) }}>
+                {totals[i] === 0 ? (
+                  <div style={{ height: 2, backgroundColor: colors.streak.empty, borderRadius: 2 }} />
+                ) : (
+                  SEGMENTS.map((segment) => (
+                    <div
+                      key={segment.label}
+                      style={{
+                        height: (segment.tokens(month) / totals[i]) * barHeight,
+                        backgroundColor: segment.color,
+                      }}
+                    />
+                  ))
+                )}
+              </div>
+              <span style={{ fontSize: typography.size.xs, fontWeight: typography.weight.medium, color: colors.text.muted }}>
+                {month.label}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import type { PromptStats } from "../types";
+import { formatNumberFull, truncate } from "../utils/format";
+import { colors, typography, spacing, layout, components } from "./design-tokens";
+
+const BAR_HEIGHT = 8;
+const MAX_WORDS = 5;
+
+/** Prompt length distribution, the longest prompt and images, next to the most used words and slash commands */
+export function PromptsPanel({ prompts }: { prompts: PromptStats }) {
+  const rows = [
+    { label: "Average", value: `${Math.round(prompts.averageWords)} words` },
+    { label: "Median", value: `${Math.round(prompts.medianWords)} words` },
+    { label: "Longest", value: prompts.longest ? `${formatNumberFull(prompts.longest.words)} words` : "–" },
+    {
+      label: "Images",
+      value: `${formatNumberFull(prompts.images)} in ${formatNumberFull(prompts.promptsWithImages)} prompts`,
+    },
+  ];
+
+  const words = [
+    ...prompts.topSlashCommands.slice(0, 2).map((command) => ({ name: command.command, count: command.count })),
+    ...prompts.topWords.map((word) => ({ name: word.word, count: word.count })),
+  ].slice(0, MAX_WORDS);
+
+  return (
+    <div style={{ display: "flex", flexDirection: "row", gap: spacing[8] }}>
+      <Card title="Length (words)">
+        {prompts.lengthDistribution.map((bucket) => (
+          <div key={bucket.minWords} style={{ display: "flex", flexDirection: "row", alignItems: "center", gap: spacing[4] }}>
+            <span style={{ width: 90, fontSize: typography.size.md, fontWeight: typography.weight.medium, color: colors.text.tertiary }}>
+              {bucket.label.replace(" words", "")}
+            </span>
+            <div
+              style={{
+                display: "flex",
+                flex: 1,
+                height: BAR_HEIGHT,
+                backgroundColor: colors.streak.empty,
+                borderRadius: BAR_HEIGHT / 2,
+              }}
+            >
+              <div
+                style={{
+                  width: `${bucket.count === 0 ? 0 : Math.max(2, bucket.percentage)}%`,
+                  height: BAR_HEIGHT,
+                  backgroundColor: colors.accent.primary,
+                  borderRadius: BAR_HEIGHT / 2,
+                }}
+              />
+            </div>
+            <span
+              style={{
+                width: 56,
+                display: "flex",
+                justifyContent: "flex-end",
+                fontSize: typography.size.md,
+                fontWeight: typography.weight.semibold,
+                color: colors.text.primary,
+              }}
+            >
+              {Math.round(bucket.percentage)}%
+            </span>
+          </div>
+        ))}
+      </Card>
+
+      <Card title="Prompts">
+        {rows.map((row) => (
+          <div key={row.label} style={{ display: "flex", justifyContent: "space-between", gap: spacing[4] }}>
+            <span style={{ fontSize: typography.size.md, fontWeight: typography.weight.medium, color: colors.text.tertiary }}>
+              {row.label}
+            </span>
+            <span style={{ fontSize: typography.size.md, fontWeight: typography.weight.semibold, color: colors.text.primary }}>
+              {row.value}
+            </span>
+          </div>
+        ))}
+      </Card>
+
+      {words.length > 0 && (
+        <Card title="You Say">
+          {words.map((word, i) => (
+            <div key={word.name} style={{ display: "flex", justifyContent: "space-between", gap: spacing[4] }}>
+              <span
+                style={{
+                  fontSize: typography.size.md,
+                  fontWeight: typography.weight.medium,
+                  color: i === 0 ? colors.text.primary : colors.text.secondary,
+                }}
+              >
+                {truncate(word.name, 14)}
+              </span>
+              <span style={{ fontSize: typography.size.md, fontWeight: typography.weight.semibold, color: colors.text.primary }}>
+                {formatNumberFull(word.count)}
+              </span>
+            </div>
+          ))}
+        </Card>
+      )}
+    </div>
+  );
+}
+
+function Card({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div
+      style={{
+        display: "flex",
+        flexDirection: "column",
+        gap: spacing[3],
+        flex: 1,
+        backgroundColor: colors.surface,
+        border: `1px solid ${colors.surfaceBorder}`,
+        borderRadius: layout.radius.lg,
+        padding: spacing[6],
+      }}
+    >
+      <span
+        style={{
+          fontSize: components.sectionHeader.fontSize,
+          fontWeight: components.sectionHeader.fontWeight,
+          color: components.sectionHeader.color,
+          letterSpacing: components.sectionHeader.letterSpacing,
+          textTransform: components.sectionHeader.textTransform,
+        }}
+      >
+        {title}
+      </span>
+      {children}
+    </div>
+  );
+}
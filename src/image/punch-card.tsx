@@ -0,0 +1,93 @@
+import type { HourlyActivity } from "../types";
+import { getIntensityLevel } from "../utils/dates";
+import { colors, typography, spacing, HEATMAP_COLORS } from "./design-tokens";
+
+const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+const DAY_LABEL_WIDTH = 48;
+const COLUMN_WIDTH = 36;
+const COLUMN_GAP = 4;
+const HISTOGRAM_HEIGHT = 72;
+const PUNCH_CELL_HEIGHT = 18;
+
+/** Hour-of-day histogram stacked over a weekday x hour punch card, sharing the same columns */
+export function HourlyActivityChart({ hourlyActivity }: { hourlyActivity: HourlyActivity }) {
+  const { counts, punchCard, peakHour, maxCount, punchCardMax } = hourlyActivity;
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: COLUMN_GAP }}>
+      <div style={{ display: "flex", flexDirection: "row", alignItems: "flex-end", height: HISTOGRAM_HEIGHT }}>
+        <div style={{ width: DAY_LABEL_WIDTH }} />
+        <div style={{ display: "flex", flexDirection: "row", alignItems: "flex-end", gap: COLUMN_GAP }}>
+          {HOURS.map((hour) => {
+            const heightPercent = maxCount > 0 ? counts[hour] / maxCount : 0;
+            return (
+              <div
+                key={hour}
+                style={{
+                  width: COLUMN_WIDTH,
+                  height: Math.max(4, Math.round(heightPercent * HISTOGRAM_HEIGHT)),
+                  backgroundColor: hour === peakHour && maxCount > 0 ? colors.accent.primary : colors.streak.level4,
+                  borderRadius: 3,
+                }}
+              />
+            );
+          })}
+        </div>
+      </div>
+
+      {punchCard.map((hours, weekday) => (
+        <div key={weekday} style={{ display: "flex", flexDirection: "row", alignItems: "center" }}>
+          <span
+            style={{
+              width: DAY_LABEL_WIDTH,
+              fontSize: typography.size.xs,
+              fontWeight: typography.weight.medium,
+              color: colors.text.muted,
+            }}
+          >
+            {WEEKDAY_LABELS[weekday]}
+          </span>
+          <div style={{ display: "flex", flexDirection: "row", gap: COLUMN_GAP }}>
+            {HOURS.map((hour) => {
+              const intensity = getIntensityLevel(hours[hour], punchCardMax) as keyof typeof HEATMAP_COLORS;
+              return (
+                <div
+                  key={hour}
+                  style={{
+                    width: COLUMN_WIDTH,
+                    height: PUNCH_CELL_HEIGHT,
+                    backgroundColor: HEATMAP_COLORS[intensity],
+                    borderRadius: 3,
+                  }}
+                />
+              );
+            })}
+          </div>
+        </div>
+      ))}
+
+      <div style={{ display: "flex", flexDirection: "row", marginTop: spacing[1] }}>
+        <div style={{ width: DAY_LABEL_WIDTH }} />
+        <div style={{ display: "flex", flexDirection: "row", gap: COLUMN_GAP }}>
+          {HOURS.map((hour) => (
+            <span
+              key={hour}
+              style={{
+                width: COLUMN_WIDTH,
+                display: "flex",
+                justifyContent: "center",
+                fontSize: typography.size.xs,
+                fontWeight: hour === peakHour ? typography.weight.bold : typography.weight.regular,
+                color: hour === peakHour ? colors.accent.primary : colors.text.muted,
+              }}
+            >
+              {hour % 3 === 0 || hour === peakHour ? String(hour).padStart(2, "0") : ""}
+            </span>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import type { DateRange, RateLimitStats, RateLimitWindowStats } from "../types";
+import { bucketDailyPeaks, RATE_LIMIT_APPROACH_PERCENT, RATE_LIMIT_HIT_PERCENT } from "../rate-limits";
+import { diffDateKeys, getTodayKey } from "../utils/dates";
+import { colors, typography, spacing, layout } from "./design-tokens";
+
+const LABEL_WIDTH = 200;
+const CHART_WIDTH = layout.canvas.width - layout.padding.horizontal * 2 - LABEL_WIDTH;
+const CHART_HEIGHT = 64;
+const BAR_GAP = 2;
+// Longer ranges are drawn one bar per week so the bars stay readable
+const MAX_DAILY_BARS = 62;
+
+/** Peak plan usage over the range, one row per rate-limit window; bars turn amber near the limit and red on it */
+export function RateLimitTimeline({
+  rateLimits,
+  range,
+  timeZone,
+}: {
+  rateLimits: RateLimitStats;
+  range: DateRange;
+  timeZone: string;
+}) {
+  const today = getTodayKey(timeZone);
+  const end = range.to < today ? range.to : today;
+  const days = Math.max(1, diffDateKeys(range.from, end) + 1);
+  const bucketDays = days > MAX_DAILY_BARS ? 7 : 1;
+  const bucketCount = Math.ceil(days / bucketDays);
+  const barWidth = Math.max(1, (CHART_WIDTH + BAR_GAP) / bucketCount - BAR_GAP);
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: spacing[4] }}>
+      {rateLimits.windows.map((window) => (
+        <div key={window.name} style={{ display: "flex", flexDirection: "row", alignItems: "flex-end" }}>
+          <WindowSummary window={window} />
+          <div style={{ display: "flex", flexDirection: "row", alignItems: "flex-end", gap: BAR_GAP, height: CHART_HEIGHT }}>
+            {bucketDailyPeaks(window.dailyPeak, range.from, end, bucketDays).map((peak, i) => (
+              <div
+                key={i}
+                style={{
+                  width: barWidth,
+                  height: Math.max(2, Math.round((Math.min(peak, 100) / 100) * CHART_HEIGHT)),
+                  backgroundColor: getBarColor(peak),
+                  borderRadius: 2,
+                }}
+              />
+            ))}
+          </div>
+        </div>
+      ))}
+      {rateLimits.throttledDays.size > 0 && (
+        <span style={{ fontSize: typography.size.sm, color: colors.text.muted }}>
+          Throttled on {rateLimits.throttledDays.size} {rateLimits.throttledDays.size === 1 ? "day" : "days"}
+        </span>
+      )}
+    </div>
+  );
+}
+
+function WindowSummary({ window }: { window: RateLimitWindowStats }) {
+  return (
+    <div style={{ display: "flex", flexDirection: "column", width: LABEL_WIDTH, gap: spacing[1] }}>
+      <span style={{ fontSize: typography.size.md, fontWeight: typography.weight.semibold, color: colors.text.primary }}>
+        {window.label}
+      </span>
+      <span style={{ fontSize: typography.size.sm, color: colors.text.tertiary }}>
+        Peak {Math.round(window.peakPercent)}%
+      </span>
+      <span style={{ fontSize: typography.size.sm, color: colors.text.tertiary }}>
+        {window.hits} {window.hits === 1 ? "hit" : "hits"} · {window.approaches} near
+      </span>
+    </div>
+  );
+}
+
+function getBarColor(peak: number): string {
+  if (peak >= RATE_LIMIT_HIT_PERCENT) return colors.semantic.error;
+  if (peak >= RATE_LIMIT_APPROACH_PERCENT) return colors.semantic.warning;
+  return peak > 0 ? colors.streak.level4 : colors.streak.empty;
+}
@@ -1,17 +1,41 @@
-import type { CodexStats, WeekdayActivity } from "../types";
-import { formatNumberFull, formatCostFull, formatDate } from "../utils/format";
+import type { CodexStats, HeatmapMetric, HourlyActivity, MetricDelta, WeekdayActivity } from "../types";
+import {
+  formatNumberFull,
+  formatCostFull,
+  formatDate,
+  formatDateKeyRange,
+  formatDelta,
+  formatDuration,
+  formatHour,
+  truncate,
+} from "../utils/format";
+import { AchievementsPanel } from "./achievements";
 import { ActivityHeatmap } from "./heatmap";
+import { ContextWindowPanel } from "./context-window";
+import { MonthlyChart } from "./monthly";
+import { HourlyActivityChart } from "./punch-card";
+import { PromptsPanel } from "./prompts";
+import { RateLimitTimeline } from "./rate-limits";
+import { TurnSettingsPanel } from "./turn-settings";
 import { colors, typography, spacing, layout, components } from "./design-tokens";
 import logoBase64 from "../../assets/images/codex-logo.base64.txt" with { type: "text" };
 
 const CODEX_LOGO_DATA_URL = `data:image/png;base64,${logoBase64.trim()}`;
 
-export function WrappedTemplate({ stats }: { stats: CodexStats }) {
+const HEATMAP_SERIES: Record<HeatmapMetric, { legend: string; series: (stats: CodexStats) => Map<string, number> }> = {
+  messages: { legend: "Messages per day", series: (stats) => stats.dailyActivity },
+  tokens: { legend: "Tokens per day", series: (stats) => stats.dailyTokens },
+  cost: { legend: "Cost per day", series: (stats) => stats.dailyCost },
+  sessions: { legend: "Sessions per day", series: (stats) => stats.dailySessions },
+  hours: { legend: "Active hours per day", series: (stats) => stats.dailyHours },
+};
+
+export function WrappedTemplate({ stats, heatmapMetric }: { stats: CodexStats; heatmapMetric: HeatmapMetric }) {
   return (
     <div
       style={{
         width: layout.canvas.width,
-        height: layout.canvas.height,
+        minHeight: layout.canvas.height,
         display: "flex",
         flexDirection: "column",
         backgroundColor: colors.background,
@@ -49,18 +73,19 @@ export function WrappedTemplate({ stats }: { stats: CodexStats }) {
           borderRadius: layout.radius.full,
         }}
       />
-      <Header year={stats.year} />
+      <Header label={stats.range.label} compareLabel={stats.comparison?.range.label} />
 
       <div style={{ marginTop: spacing[8], display: "flex", flexDirection: "row", gap: spacing[16], alignItems: "flex-start" }}>
         <HeroStatItem
           label="Started"
-          subtitle={formatDate(stats.firstSessionDate)}
+          subtitle={formatDate(stats.firstSessionDate, stats.timeZone)}
           value={`${stats.daysSinceFirstSession} Days Ago`}
         />
         <HeroStatItem
           label="Most Active Day"
           subtitle={stats.weekdayActivity.mostActiveDayName}
           value={stats.mostActiveDay?.formattedDate ?? "N/A"}
+          delta={stats.comparison?.metrics.busiestDay}
         />
 
         <div
@@ -88,24 +113,107 @@ export function WrappedTemplate({ stats }: { stats: CodexStats }) {
         </div>
       </div>
 
-      <Section title="Activity" marginTop={spacing[8]}>
-        <ActivityHeatmap dailyActivity={stats.dailyActivity} year={stats.year} maxStreakDays={stats.maxStreakDays} />
+      {stats.achievements.badges.length > 0 && (
+        <Section title="Achievements" marginTop={spacing[8]}>
+          <AchievementsPanel achievements={stats.achievements} />
+        </Section>
+      )}
+
+      <Section
+        title={heatmapMetric === "messages" ? "Activity" : `Activity (${heatmapMetric})`}
+        marginTop={spacing[8]}
+      >
+        <ActivityHeatmap
+          dailyActivity={HEATMAP_SERIES[heatmapMetric].series(stats)}
+          legendLabel={HEATMAP_SERIES[heatmapMetric].legend}
+          range={stats.range}
+          timeZone={stats.timeZone}
+          maxStreakDays={stats.maxStreakDays}
+        />
+      </Section>
+
+      {stats.monthly.length > 1 && (
+        <Section title="Monthly" marginTop={spacing[8]}>
+          <MonthlyChart monthly={stats.monthly} showCost={stats.hasUsageCost} />
+        </Section>
+      )}
+
+      <Section title="When You Code" marginTop={spacing[8]}>
+        <div style={{ display: "flex", flexDirection: "row", gap: spacing[8], alignItems: "stretch" }}>
+          <HourlyActivityChart hourlyActivity={stats.hourlyActivity} />
+          <ChronotypeCard hourlyActivity={stats.hourlyActivity} timeZone={stats.timeZone} />
+        </div>
       </Section>
 
+      {stats.rateLimits.windows.length > 0 && (
+        <Section title="Rate Limits" marginTop={spacing[8]}>
+          <RateLimitTimeline rateLimits={stats.rateLimits} range={stats.range} timeZone={stats.timeZone} />
+        </Section>
+      )}
+
+      {stats.context.measuredSessions > 0 && (
+        <Section title="Context Window" marginTop={spacing[8]}>
+          <ContextWindowPanel context={stats.context} />
+        </Section>
+      )}
+
+      {(stats.totalTurns > 0 || stats.clients.length > 0) && (
+        <Section title="How You Drive Codex" marginTop={spacing[8]}>
+          <TurnSettingsPanel stats={stats}>
+            {stats.clients.length > 0 && (
+              <RankingList
+                title="Clients"
+                items={stats.clients.slice(0, 3).map((client) => ({
+                  name: `${truncate(client.name, 8)} ${Math.round(client.percentage)}%`,
+                }))}
+              />
+            )}
+          </TurnSettingsPanel>
+        </Section>
+      )}
+
+      {stats.prompts && stats.prompts.prompts > 0 && (
+        <Section title="Your Prompts" marginTop={spacing[8]}>
+          <PromptsPanel prompts={stats.prompts} />
+        </Section>
+      )}
+
       <div
         style={{
           marginTop: spacing[8],
           display: "flex",
           flexDirection: "row",
-          gap: spacing[16],
+          gap: spacing[8],
         }}
       >
         <RankingList
           title="Top Models"
           items={stats.topModels.map((m) => ({
-            name: m.name,
+            name: truncate(m.name, 13),
+            detail: stats.hasUsageCost
+              ? `${formatCostFull(m.cost)} · ${Math.round(m.costPercentage)}% of cost`
+              : `${Math.round(m.percentage)}% of tokens`,
+            // Adopted since the compared range (--compare)
+            badge: stats.comparison?.newModels.some((model) => model.id === m.id) ? "new" : undefined,
           }))}
         />
+        {stats.projects.length > 0 && (
+          <RankingList
+            title="Top Projects"
+            items={stats.projects.slice(0, 3).map((project) => ({
+              name: truncate(project.name, 13),
+            }))}
+          />
+        )}
+        {stats.tools.length > 0 && (
+          <RankingList
+            title="Top Tools"
+            items={stats.tools.slice(0, 3).map((tool) => ({
+              // MCP tools show without their server prefix to fit the column
+              name: truncate(tool.kind === "mcp" ? tool.name.slice(tool.name.indexOf("__") + 2) : tool.name, 13),
+            }))}
+          />
+        )}
         <InsightCard stats={stats} />
       </div>
 
@@ -115,7 +223,7 @@ export function WrappedTemplate({ stats }: { stats: CodexStats }) {
   );
 }
 
-function Header({ year }: { year: number }) {
+function Header({ label, compareLabel }: { label: string; compareLabel?: string }) {
   return (
     <div
       style={{
@@ -181,10 +289,22 @@ function Header({ year }: { year: number }) {
               lineHeight: typography.lineHeight.none,
             }}
           >
-            {year}
+            {label}
           </span>
         </div>
       </div>
+      {compareLabel && (
+        <span
+          style={{
+            alignSelf: "flex-end",
+            fontSize: typography.size.lg,
+            fontWeight: typography.weight.medium,
+            color: colors.text.muted,
+          }}
+        >
+          vs {compareLabel}
+        </span>
+      )}
     </div>
   );
 }
@@ -196,7 +316,17 @@ const BAR_GAP = 12;
 
 const HERO_STAT_CONTENT_HEIGHT = BAR_HEIGHT + spacing[2] + 50;
 
-function HeroStatItem({ label, subtitle, value }: { label: string; subtitle?: string; value: string }) {
+function HeroStatItem({
+  label,
+  subtitle,
+  value,
+  delta,
+}: {
+  label: string;
+  subtitle?: string;
+  value: string;
+  delta?: MetricDelta;
+}) {
   return (
     <div
       style={{
@@ -221,16 +351,21 @@ function HeroStatItem({ label, subtitle, value }: { label: string; subtitle?: st
       >
         {label}
       </span>
-      {subtitle && (
-        <span
-          style={{
-            fontSize: typography.size['xl'],
-            fontWeight: typography.weight.medium,
-            color: colors.text.tertiary,
-          }}
-        >
-          {subtitle}
-        </span>
+      {(subtitle || delta) && (
+        <div style={{ display: "flex", alignItems: "center", gap: spacing[3] }}>
+          {subtitle && (
+            <span
+              style={{
+                fontSize: typography.size['xl'],
+                fontWeight: typography.weight.medium,
+                color: colors.text.tertiary,
+              }}
+            >
+              {subtitle}
+            </span>
+          )}
+          {delta && <DeltaBadge delta={delta} />}
+        </div>
       )}
       <span
         style={{
@@ -309,6 +444,51 @@ function WeeklyBarChart({ weekdayActivity }: { weekdayActivity: WeekdayActivity
   );
 }
 
+function ChronotypeCard({ hourlyActivity, timeZone }: { hourlyActivity: HourlyActivity; timeZone: string }) {
+  return (
+    <div
+      style={{
+        display: "flex",
+        flexDirection: "column",
+        justifyContent: "space-between",
+        flex: 1,
+        backgroundColor: colors.surface,
+        border: `1px solid ${colors.surfaceBorder}`,
+        borderRadius: layout.radius.lg,
+        padding: spacing[6],
+      }}
+    >
+      <span
+        style={{
+          fontSize: components.sectionHeader.fontSize,
+          fontWeight: components.sectionHeader.fontWeight,
+          color: components.sectionHeader.color,
+          letterSpacing: components.sectionHeader.letterSpacing,
+          textTransform: components.sectionHeader.textTransform,
+        }}
+      >
+        You Are
+      </span>
+      <span
+        style={{
+          fontSize: typography.size["2xl"],
+          fontWeight: typography.weight.bold,
+          color: colors.accent.primary,
+          lineHeight: typography.lineHeight.tight,
+        }}
+      >
+        {hourlyActivity.chronotypeName}
+      </span>
+      <div style={{ display: "flex", flexDirection: "column", gap: spacing[1] }}>
+        <span style={{ fontSize: typography.size.md, fontWeight: typography.weight.medium, color: colors.text.primary }}>
+          Peak hour {formatHour(hourlyActivity.peakHour)}
+        </span>
+        <span style={{ fontSize: typography.size.sm, color: colors.text.muted }}>{timeZone}</span>
+      </div>
+    </div>
+  );
+}
+
 function Section({ title, marginTop = 0, children }: { title: string; marginTop?: number; children: React.ReactNode }) {
   return (
     <div
@@ -338,6 +518,9 @@ function Section({ title, marginTop = 0, children }: { title: string; marginTop?
 interface RankingItem {
   name: string;
   logoUrl?: string;
+  badge?: string;
+  /** Secondary line under the name, e.g. a share */
+  detail?: string;
 }
 
 function RankingList({ title, items }: { title: string; items: RankingItem[] }) {
@@ -373,7 +556,7 @@ function RankingList({ title, items }: { title: string; items: RankingItem[] })
         }}
       >
         {items.map((item, i) => (
-          <RankingItemRow key={i} rank={i + 1} name={item.name} logoUrl={item.logoUrl} />
+          <RankingItemRow key={i} rank={i + 1} {...item} />
         ))}
       </div>
     </div>
@@ -384,9 +567,11 @@ interface RankingItemRowProps {
   rank: number;
   name: string;
   logoUrl?: string;
+  badge?: string;
+  detail?: string;
 }
 
-function RankingItemRow({ rank, name, logoUrl }: RankingItemRowProps) {
+function RankingItemRow({ rank, name, logoUrl, badge, detail }: RankingItemRowProps) {
   return (
     <div
       style={{
@@ -419,15 +604,27 @@ function RankingItemRow({ rank, name, logoUrl }: RankingItemRowProps) {
         />
       )}
 
-      <span
-        style={{
-          fontSize: components.ranking.itemSize,
-          fontWeight: typography.weight.medium,
-          color: colors.text.primary,
-        }}
-      >
-        {name}
-      </span>
+      <div style={{ display: "flex", flexDirection: "column", gap: spacing[1] }}>
+        <div style={{ display: "flex", alignItems: "center", gap: spacing[4] }}>
+          <span
+            style={{
+              fontSize: components.ranking.itemSize,
+              fontWeight: typography.weight.medium,
+              color: colors.text.primary,
+            }}
+          >
+            {name}
+          </span>
+
+          {badge && <Badge text={badge} color={colors.accent.secondary} />}
+        </div>
+
+        {detail && (
+          <span style={{ fontSize: typography.size.sm, fontWeight: typography.weight.medium, color: colors.text.tertiary }}>
+            {detail}
+          </span>
+        )}
+      </div>
     </div>
   );
 }
@@ -450,6 +647,10 @@ function InsightCard({ stats }: { stats: CodexStats }) {
       label: "Reasoning",
       value: `${formatNumberFull(stats.totalReasoningTokens)} tok`,
     },
+    stats.cacheSavings.saved > 0 && {
+      label: "Saved by Cache",
+      value: formatCostFull(stats.cacheSavings.saved),
+    },
   ].filter(Boolean) as Array<{ label: string; value: string }>;
 
   return (
@@ -458,7 +659,7 @@ function InsightCard({ stats }: { stats: CodexStats }) {
         display: "flex",
         flexDirection: "column",
         gap: spacing[5],
-        flex: 1,
+        flex: 1.2,
         backgroundColor: colors.surface,
         border: `1px solid ${colors.surfaceBorder}`,
         borderRadius: layout.radius.lg,
@@ -514,6 +715,21 @@ function InsightCard({ stats }: { stats: CodexStats }) {
 
 function StatsGrid({ stats }: { stats: CodexStats }) {
   const hasCost = stats.hasUsageCost;
+  const { codeChanges, sessionTime } = stats;
+  const deltas = stats.comparison?.metrics;
+  const { streak } = stats;
+  const streakBox = (
+    <StatBox
+      label="Streak"
+      value={`${stats.maxStreak}${streak.unit === "week" ? "w" : "d"}`}
+      delta={deltas?.streak}
+      caption={
+        streak.longest
+          ? `${streak.definition} · ${formatDateKeyRange(streak.longest.from, streak.longest.to)}`
+          : streak.definition
+      }
+    />
+  );
 
   return (
     <div
@@ -527,31 +743,49 @@ function StatsGrid({ stats }: { stats: CodexStats }) {
       {hasCost ? (
         <div style={{ display: "flex", flexDirection: "column", gap: spacing[5] }}>
           <div style={{ display: "flex", gap: spacing[5] }}>
-            <StatBox label="Sessions" value={formatNumberFull(stats.totalSessions)} />
-            <StatBox label="Messages" value={formatNumberFull(stats.totalMessages)} />
-            <StatBox label="Total Tokens" value={formatNumberFull(stats.totalTokens)} />
+            <StatBox label="Sessions" value={formatNumberFull(stats.totalSessions)} delta={deltas?.sessions} />
+            <StatBox label="Messages" value={formatNumberFull(stats.totalMessages)} delta={deltas?.messages} />
+            <StatBox label="Total Tokens" value={formatNumberFull(stats.totalTokens)} delta={deltas?.tokens} />
           </div>
 
           <div style={{ display: "flex", gap: spacing[5] }}>
-            <StatBox label="Projects" value={formatNumberFull(stats.totalProjects)} />
-            <StatBox label="Streak" value={`${stats.maxStreak}d`} />
-            <StatBox label="Usage Cost" value={formatCostFull(stats.totalCost)} />
+            <StatBox label="Projects" value={formatNumberFull(stats.totalProjects)} delta={deltas?.projects} />
+            {streakBox}
+            <StatBox label="Usage Cost" value={formatCostFull(stats.totalCost)} delta={deltas?.cost} />
           </div>
         </div>
       ) : (
         <div style={{ display: "flex", flexDirection: "column", gap: spacing[5] }}>
           <div style={{ display: "flex", gap: spacing[5] }}>
-            <StatBox label="Sessions" value={formatNumberFull(stats.totalSessions)} />
-            <StatBox label="Messages" value={formatNumberFull(stats.totalMessages)} />
-            <StatBox label="Tokens" value={formatNumberFull(stats.totalTokens)} />
+            <StatBox label="Sessions" value={formatNumberFull(stats.totalSessions)} delta={deltas?.sessions} />
+            <StatBox label="Messages" value={formatNumberFull(stats.totalMessages)} delta={deltas?.messages} />
+            <StatBox label="Tokens" value={formatNumberFull(stats.totalTokens)} delta={deltas?.tokens} />
           </div>
 
           <div style={{ display: "flex", gap: spacing[5] }}>
-            <StatBox label="Projects" value={formatNumberFull(stats.totalProjects)} />
-            <StatBox label="Streak" value={`${stats.maxStreak}d`} />
+            <StatBox label="Projects" value={formatNumberFull(stats.totalProjects)} delta={deltas?.projects} />
+            {streakBox}
           </div>
         </div>
       )}
+
+      {sessionTime.longestSession && (
+        <div style={{ display: "flex", gap: spacing[5] }}>
+          <StatBox label="Hours Active" value={formatDuration(sessionTime.activeHours * 60)} delta={deltas?.activeHours} />
+          <StatBox label="Longest Session" value={formatDuration(sessionTime.longestSession.activeMinutes)} delta={deltas?.longestSession} />
+          <StatBox label="Avg Session" value={formatDuration(sessionTime.averageSessionMinutes)} delta={deltas?.averageSession} />
+        </div>
+      )}
+
+      {codeChanges.files > 0 && (
+        <div style={{ display: "flex", gap: spacing[5] }}>
+          <StatBox label="Lines Written" value={formatNumberFull(codeChanges.additions)} delta={deltas?.linesWritten} />
+          <StatBox label="Files Touched" value={formatNumberFull(codeChanges.files)} delta={deltas?.filesTouched} />
+          {codeChanges.tokensPerChangedLine !== null && (
+            <StatBox label="Tokens / Line" value={formatNumberFull(codeChanges.tokensPerChangedLine)} />
+          )}
+        </div>
+      )}
     </div>
   );
 }
@@ -559,9 +793,12 @@ function StatsGrid({ stats }: { stats: CodexStats }) {
 interface StatBoxProps {
   label: string;
   value: string;
+  delta?: MetricDelta;
+  /** Small print under the value, e.g. what the number counts */
+  caption?: string;
 }
 
-function StatBox({ label, value }: StatBoxProps) {
+function StatBox({ label, value, delta, caption }: StatBoxProps) {
   return (
     <div
       style={{
@@ -592,20 +829,66 @@ function StatBox({ label, value }: StatBoxProps) {
         {label}
       </span>
 
-      <span
-        style={{
-          fontSize: typography.size["2xl"],
-          fontWeight: typography.weight.bold,
-          color: colors.text.primary,
-          lineHeight: typography.lineHeight.none,
-        }}
-      >
-        {value}
-      </span>
+      <div style={{ display: "flex", alignItems: "center", gap: spacing[3] }}>
+        <span
+          style={{
+            fontSize: typography.size["2xl"],
+            fontWeight: typography.weight.bold,
+            color: colors.text.primary,
+            lineHeight: typography.lineHeight.none,
+          }}
+        >
+          {value}
+        </span>
+        {delta && <DeltaBadge delta={delta} />}
+      </div>
+
+      {caption && (
+        <span style={{ fontSize: typography.size.sm, fontWeight: typography.weight.medium, color: colors.text.muted }}>
+          {caption}
+        </span>
+      )}
     </div>
   );
 }
 
+/** Change against the compared range (--compare): green when up, red when down */
+function DeltaBadge({ delta }: { delta: MetricDelta }) {
+  const color =
+    delta.percentChange === null
+      ? delta.current > 0
+        ? colors.accent.secondary
+        : colors.text.muted
+      : Math.round(delta.percentChange) > 0
+      ? colors.semantic.success
+      : Math.round(delta.percentChange) < 0
+      ? colors.semantic.error
+      : colors.text.muted;
+
+  return <Badge text={formatDelta(delta)} color={color} />;
+}
+
+function Badge({ text, color }: { text: string; color: string }) {
+  return (
+    <span
+      style={{
+        fontSize: typography.size.md,
+        fontWeight: typography.weight.semibold,
+        color,
+        backgroundColor: `${color}22`,
+        borderRadius: layout.radius.full,
+        paddingTop: spacing[1],
+        paddingBottom: spacing[1],
+        paddingLeft: spacing[2],
+        paddingRight: spacing[2],
+        lineHeight: typography.lineHeight.none,
+      }}
+    >
+      {text}
+    </span>
+  );
+}
+
 function Footer() {
   return (
     <div
@@ -0,0 +1,111 @@
+import type { CodexStats, TurnSettingKind, TurnSettingStats } from "../types";
+import { formatCost, formatNumber } from "../utils/format";
+import { colors, typography, spacing, layout, components } from "./design-tokens";
+
+const MAX_ROWS = 4;
+const BAR_HEIGHT = 8;
+
+const PANEL_TITLES: Record<TurnSettingKind, string> = {
+  reasoningEffort: "Reasoning Effort",
+  approvalPolicy: "Approvals",
+  sandboxMode: "Sandbox",
+};
+
+/**
+ * Share of turns per reasoning effort, approval policy and sandbox mode; effort rows also show what they cost.
+ * `children` are laid out as further cards in the same row.
+ */
+export function TurnSettingsPanel({ stats, children }: { stats: CodexStats; children?: React.ReactNode }) {
+  const kinds: TurnSettingKind[] = stats.totalTurns > 0 ? ["reasoningEffort", "approvalPolicy", "sandboxMode"] : [];
+
+  return (
+    <div style={{ display: "flex", flexDirection: "row", gap: spacing[8] }}>
+      {kinds.map((kind) => (
+        <SettingCard
+          key={kind}
+          title={PANEL_TITLES[kind]}
+          settings={stats.turnSettings[kind].slice(0, MAX_ROWS)}
+          detail={
+            kind === "reasoningEffort"
+              ? (setting) => (stats.hasUsageCost ? formatCost(setting.cost) : `${formatNumber(setting.tokens)} tok`)
+              : undefined
+          }
+        />
+      ))}
+      {children}
+    </div>
+  );
+}
+
+function SettingCard({
+  title,
+  settings,
+  detail,
+}: {
+  title: string;
+  settings: TurnSettingStats[];
+  detail?: (setting: TurnSettingStats) => string;
+}) {
+  return (
+    <div
+      style={{
+        display: "flex",
+        flexDirection: "column",
+        gap: spacing[4],
+        flex: 1,
+        backgroundColor: colors.surface,
+        border: `1px solid ${colors.surfaceBorder}`,
+        borderRadius: layout.radius.lg,
+        padding: spacing[6],
+      }}
+    >
+      <span
+        style={{
+          fontSize: components.sectionHeader.fontSize,
+          fontWeight: components.sectionHeader.fontWeight,
+          color: components.sectionHeader.color,
+          letterSpacing: components.sectionHeader.letterSpacing,
+          textTransform: components.sectionHeader.textTransform,
+        }}
+      >
+        {title}
+      </span>
+      {settings.map((setting, i) => (
+        <div key={setting.value} style={{ display: "flex", flexDirection: "column", gap: spacing[1] }}>
+          <div style={{ display: "flex", flexDirection: "row", justifyContent: "space-between", gap: spacing[2] }}>
+            <span
+              style={{
+                fontSize: typography.size.md,
+                fontWeight: typography.weight.medium,
+                color: i === 0 ? colors.text.primary : colors.text.secondary,
+              }}
+            >
+              {setting.label}
+            </span>
+            <span style={{ fontSize: typography.size.md, fontWeight: typography.weight.semibold, color: colors.text.primary }}>
+              {detail ? `${detail(setting)} · ` : ""}
+              {Math.round(setting.percentage)}%
+            </span>
+          </div>
+          <div
+            style={{
+              display: "flex",
+              height: BAR_HEIGHT,
+              backgroundColor: colors.streak.empty,
+              borderRadius: BAR_HEIGHT / 2,
+            }}
+          >
+            <div
+              style={{
+                width: `${Math.max(2, setting.percentage)}%`,
+                height: BAR_HEIGHT,
+                backgroundColor: i === 0 ? colors.accent.primary : colors.streak.level4,
+                borderRadius: BAR_HEIGHT / 2,
+              }}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,20 +1,62 @@
 #!/usr/bin/env bun
 
 import * as p from "@clack/prompts";
-import { join } from "node:path";
+import { stat } from "node:fs/promises";
+import os from "node:os";
+import { join, resolve } from "node:path";
 import { parseArgs } from "node:util";
 
-import { checkCodexDataExists } from "./collector";
-import { calculateStats } from "./stats";
+import { checkCodexDataExists, resolveCodexHomes } from "./collector";
+import { calculateStats, DEFAULT_TOP, type StatsOptions } from "./stats";
+import type { StreakOptions } from "./streaks";
+import { compareStats } from "./compare";
 import { generateImage } from "./image/generator";
 import { displayInTerminal, getTerminalName } from "./terminal/display";
 import { copyImageToClipboard } from "./clipboard";
-import { isWrappedAvailable } from "./utils/dates";
-import { formatCostFull, formatNumber, formatNumberFull } from "./utils/format";
-import type { CodexStats } from "./types";
+import { getTodayKey, isWrappedAvailable, resolveTimeZone } from "./utils/dates";
+import { expandHomeDir } from "./utils/paths";
+import { parseDateOption, resolveComparisonRange, resolveDateRange, type DateRangeOptions } from "./utils/range";
+import { serializeStats } from "./export/json";
+import {
+  formatCostFull,
+  formatDateKeyRange,
+  formatDelta,
+  formatDuration,
+  formatHour,
+  formatNumber,
+  formatNumberFull,
+  formatShortDate,
+  truncate,
+} from "./utils/format";
+import { formatSparkline } from "./terminal/sparkline";
+import { formatTable } from "./terminal/table";
+import { getModelDisplayName } from "./models";
+import { bucketDailyPeaks } from "./rate-limits";
+import type {
+  CodexStats,
+  ComparisonMetric,
+  DateRange,
+  HeatmapMetric,
+  PromptStats,
+  StatsComparison,
+  StreakMode,
+  StreakStats,
+} from "./types";
 
 const VERSION = "1.0.8";
 
+const HEATMAP_METRICS: readonly HeatmapMetric[] = ["messages", "tokens", "cost", "sessions", "hours"];
+const STREAK_MODES: readonly StreakMode[] = ["daily", "weekdays", "weekly"];
+const WEEKDAY_NAMES = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+/** Process exit codes, so scripts can tell "nothing to report" apart from real failures */
+const ExitCode = {
+  Success: 0,
+  Failure: 1,
+  NoData: 2,
+  NoActivity: 3,
+} as const;
+
 function printHelp() {
   console.log(`
 codex-wrapped-noyrlimit v${VERSION}
@@ -25,13 +67,59 @@ USAGE:
   codex-wrapped-noyrlimit [OPTIONS]
 
 OPTIONS:
-  --year <YYYY>    Generate wrapped for a specific year (default: current year)
-  --help, -h       Show this help message
-  --version, -v    Show version number
+  --year <YYYY>          Generate wrapped for a specific year (default: current year)
+  --quarter <YYYYQn>     Generate wrapped for a quarter, e.g. 2026Q3
+  --month <YYYY-MM>      Generate wrapped for a month, e.g. 2026-09
+  --last <N>d|<N>w       Generate wrapped for the last N days or weeks, e.g. 30d
+  --from <YYYY-MM-DD>    Start of a custom range (inclusive)
+  --to <YYYY-MM-DD>      End of a custom range (inclusive, default: today)
+  --label <TEXT>         Override the range label shown on the card, e.g. FY2026
+  --compare <YYYY>       Compare against the same range in another year
+  --tz <ZONE>            IANA time zone that days and hours are counted in,
+                         e.g. Europe/Berlin (default: the system time zone)
+  --idle-gap <MINUTES>   Pauses longer than this don't count as active time (default: 15, min: 1)
+  --heatmap-metric <M>   Color the activity heatmap by messages, tokens, cost, sessions
+                         or hours (default: messages)
+  --streak <MODE>        What counts as a streak: daily (consecutive days), weekdays
+                         (idle weekends don't break it) or weekly (default: daily)
+  --rest-days <LIST>     Weekdays and dates that don't break a streak when idle,
+                         e.g. fri,2026-12-24,2026-12-25
+  --top <N>              List the top N models on the card, plus a per-model table
+                         with tokens by type, prompts and cost (default: 3)
+  --projects             Show a per-project breakdown table
+  --monthly              Show sessions, messages, tokens and cost per month
+  --tools                Show tool call counts and the most used shell commands
+  --prompts              Analyze your prompts (length, images, frequent words);
+                         computed locally and never cached
+  --project-map <PATH>   JSON file mapping path prefixes to project names
+                         (default: ~/.config/codex-wrapped-noyrlimit/projects.json)
+  --codex-home <PATH>    Codex home to read (default: $CODEX_HOME or ~/.codex);
+                         repeat to merge several homes, e.g. a synced copy
+  --no-cache             Re-parse every session instead of using the parse cache
+  --json                 Print stats as JSON to stdout instead of generating the card
+  --output, -o <PATH>    Write stats as JSON to a file
+  --save <PATH>          Save the image to a file or directory without asking
+  --no-interactive       Never prompt (default when stdin is not a TTY)
+  --no-clipboard         Don't copy the image to the clipboard
+  --no-display           Don't show the image inline in the terminal
+  --no-share             Don't offer to share on X
+  --help, -h             Show this help message
+  --version, -v          Show version number
 
 EXAMPLES:
-  codex-wrapped-noyrlimit              # Generate current year wrapped
-  codex-wrapped-noyrlimit --year 2025  # Generate 2025 wrapped
+  codex-wrapped-noyrlimit                   # Generate current year wrapped
+  codex-wrapped-noyrlimit --year 2025       # Generate 2025 wrapped
+  codex-wrapped-noyrlimit --quarter 2026Q3  # Generate Q3 2026 wrapped
+  codex-wrapped-noyrlimit --year 2026 --compare 2025
+  codex-wrapped-noyrlimit --from 2025-07-01 --to 2026-06-30 --label FY2026
+  codex-wrapped-noyrlimit --json > stats.json
+  codex-wrapped-noyrlimit --no-interactive --save ./wrapped.png
+
+EXIT CODES:
+  0  Success
+  1  Failure (invalid options, unreadable data, image or file errors)
+  2  No Codex data found
+  3  No Codex activity in the requested range
 `);
 }
 
@@ -41,6 +129,33 @@ async function main() {
     args: process.argv.slice(2),
     options: {
       year: { type: "string", short: "y" },
+      quarter: { type: "string" },
+      month: { type: "string" },
+      last: { type: "string" },
+      from: { type: "string" },
+      to: { type: "string" },
+      label: { type: "string" },
+      compare: { type: "string" },
+      tz: { type: "string" },
+      "idle-gap": { type: "string" },
+      "heatmap-metric": { type: "string" },
+      top: { type: "string" },
+      streak: { type: "string" },
+      "rest-days": { type: "string" },
+      projects: { type: "boolean" },
+      monthly: { type: "boolean" },
+      tools: { type: "boolean" },
+      prompts: { type: "boolean" },
+      "project-map": { type: "string" },
+      "codex-home": { type: "string", multiple: true },
+      "no-cache": { type: "boolean" },
+      json: { type: "boolean" },
+      output: { type: "string", short: "o" },
+      save: { type: "string" },
+      "no-interactive": { type: "boolean" },
+      "no-clipboard": { type: "boolean" },
+      "no-display": { type: "boolean" },
+      "no-share": { type: "boolean" },
       help: { type: "boolean", short: "h" },
       version: { type: "boolean", short: "v" },
     },
@@ -58,11 +173,54 @@ async function main() {
     process.exit(0);
   }
 
+  let idleGapMinutes: number | undefined;
+  let heatmapMetric: HeatmapMetric;
+  let top: number | undefined;
+  let streak: StreakOptions;
+  try {
+    idleGapMinutes = parseIdleGap(values["idle-gap"]);
+    heatmapMetric = parseHeatmapMetric(values["heatmap-metric"]);
+    top = parseTop(values.top);
+    streak = { mode: parseStreakMode(values.streak), ...parseRestDays(values["rest-days"]) };
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(ExitCode.Failure);
+  }
+
+  const codexHomes = resolveCodexHomes(values["codex-home"]);
+  const source = {
+    codexHomes,
+    useCache: !values["no-cache"],
+    projectMapPath: values["project-map"],
+    timeZone: values.tz,
+    idleGapMinutes,
+    analyzePrompts: values.prompts,
+    top,
+    streak,
+  };
+
+  if (values.json) {
+    process.exit(await runJsonExport(values, source, values.output));
+  }
+
+  const interactive = !values["no-interactive"] && process.stdin.isTTY === true;
+
   p.intro("codex wrapped");
 
-  const requestedYear = values.year ? parseInt(values.year, 10) : new Date().getFullYear();
+  let range: DateRange;
+  let compareRange: DateRange | null;
+  let timeZone: string;
+  try {
+    timeZone = resolveTimeZone(values.tz);
+    const today = getTodayKey(timeZone);
+    range = resolveDateRange(values, today);
+    compareRange = values.compare !== undefined ? resolveComparisonRange(range, values.compare, today) : null;
+  } catch (error) {
+    p.cancel(error instanceof Error ? error.message : String(error));
+    process.exit(ExitCode.Failure);
+  }
 
-  const availability = isWrappedAvailable(requestedYear);
+  const availability = isWrappedAvailable(range, timeZone);
   if (!availability.available) {
     if (Array.isArray(availability.message)) {
       availability.message.forEach((line) => p.log.warn(line));
@@ -70,13 +228,13 @@ async function main() {
       p.log.warn(availability.message || "Wrapped not available yet.");
     }
     p.cancel();
-    process.exit(0);
+    process.exit(ExitCode.NoActivity);
   }
 
-  const dataExists = await checkCodexDataExists();
+  const dataExists = await checkCodexDataExists(codexHomes);
   if (!dataExists) {
-    p.cancel("Codex data not found in ~/.codex\n\nMake sure you have used Codex at least once.");
-    process.exit(0);
+    p.cancel(`Codex data not found in ${describeCodexHomes(codexHomes)}\n\nMake sure you have used Codex at least once.`);
+    process.exit(ExitCode.NoData);
   }
 
   const spinner = p.spinner();
@@ -84,17 +242,17 @@ async function main() {
 
   let stats;
   try {
-    stats = await calculateStats(requestedYear);
+    stats = await calculateStatsWithComparison(source, range, timeZone, compareRange);
   } catch (error) {
     spinner.stop("Failed to collect stats");
-    p.cancel(`Error: ${error}`);
-    process.exit(1);
+    p.cancel(`Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(ExitCode.Failure);
   }
 
   if (stats.totalSessions === 0) {
     spinner.stop("No data found");
-    p.cancel(`No Codex activity found for ${requestedYear}`);
-    process.exit(0);
+    p.cancel(`No Codex activity found for ${range.label}`);
+    process.exit(ExitCode.NoActivity);
   }
 
   spinner.stop("Found your stats!");
@@ -104,96 +262,595 @@ async function main() {
     `Sessions:      ${formatNumber(stats.totalSessions)}`,
     `Messages:      ${formatNumber(stats.totalMessages)}`,
     `Total Tokens:  ${formatNumber(stats.totalTokens)}`,
-    stats.totalCachedInputTokens > 0 && `Cache Read:   ${formatNumber(stats.totalCachedInputTokens)}`,
+    stats.totalCachedInputTokens > 0 && `Cache Read:    ${formatNumber(stats.totalCachedInputTokens)}`,
     stats.totalReasoningTokens > 0 && `Reasoning:     ${formatNumber(stats.totalReasoningTokens)}`,
     `Projects:      ${formatNumber(stats.totalProjects)}`,
-    `Streak:        ${stats.maxStreak} days`,
+    stats.totalToolCalls > 0 && `Tool Calls:    ${formatNumber(stats.totalToolCalls)}`,
+    stats.codeChanges.files > 0 &&
+      `Code Changes:  +${formatNumber(stats.codeChanges.additions)} / -${formatNumber(stats.codeChanges.deletions)} lines in ${formatNumber(stats.codeChanges.files)} ${stats.codeChanges.files === 1 ? "file" : "files"}`,
+    `Streak:        ${formatStreakSummary(stats)}`,
     stats.hasUsageCost && `Usage Cost:    ${stats.totalCost.toFixed(2)}$`,
+    stats.cacheSavings.saved > 0 && `Cache Savings: ${formatCacheSavings(stats)}`,
     stats.mostActiveDay && `Most Active:   ${stats.mostActiveDay.formattedDate}`,
+    stats.achievements.persona && `Persona:       ${stats.achievements.persona.name}`,
+    stats.achievements.badges.length > 0 &&
+      `Achievements:  ${stats.achievements.badges.map((badge) => badge.name).join(", ")}`,
+    stats.sessionTime.activeHours > 0 &&
+      `Active Time:   ${formatDuration(stats.sessionTime.activeHours * 60)} (avg session ${formatDuration(stats.sessionTime.averageSessionMinutes)})`,
+    `Peak Hour:     ${formatHour(stats.hourlyActivity.peakHour)} (${stats.hourlyActivity.chronotypeName})`,
+    stats.context.measuredSessions > 0 && `Context:       ${formatContextSummary(stats)}`,
+    stats.rateLimits.windows.length > 0 && `Rate Limits:   ${formatRateLimitSummary(stats)}`,
+    stats.rateLimits.throttledDays.size > 0 &&
+      `Throttled:     ${stats.rateLimits.throttledDays.size} ${stats.rateLimits.throttledDays.size === 1 ? "day" : "days"}`,
+    stats.clients.length > 0 &&
+      `Clients:       ${formatShares(stats.clients.map((client) => ({ label: client.name, percentage: client.percentage })))}`,
+    stats.cliVersions.length > 0 && `CLI Versions:  ${formatCliVersions(stats)}`,
+    stats.totalTurns > 0 && `Effort:        ${formatShares(stats.turnSettings.reasoningEffort)}`,
+    stats.totalTurns > 0 && `Approvals:     ${formatShares(stats.turnSettings.approvalPolicy)}`,
+    stats.totalTurns > 0 && `Sandbox:       ${formatShares(stats.turnSettings.sandboxMode)}`,
   ].filter(Boolean);
 
-  p.note(summaryLines.join("\n"), `Your ${requestedYear} in Codex`);
+  p.note(summaryLines.join("\n"), `Your ${range.label} in Codex`);
+
+  if (stats.comparison) {
+    p.note(formatComparison(stats, stats.comparison), `${range.label} vs ${stats.comparison.range.label}`);
+  }
+
+  if (stats.rateLimits.windows.length > 0) {
+    p.note(formatRateLimitTimeline(stats), "Rate Limits (weekly peak)");
+  }
+
+  if (top !== undefined && stats.topModels.length > 0) {
+    p.note(formatModelsTable(stats), `Top ${top} Models`);
+  }
+
+  if (values.monthly) {
+    p.note(formatMonthlyTable(stats), "Monthly");
+  }
+
+  if (values.projects && stats.projects.length > 0) {
+    p.note(formatProjectsTable(stats), "Projects");
+  }
+
+  if (values.tools && stats.tools.length > 0) {
+    p.note(formatToolsTable(stats), "Tools");
+    if (stats.topShellCommands.length > 0) {
+      p.note(formatShellCommandsTable(stats), "Top Shell Commands");
+    }
+  }
+
+  if (stats.prompts && stats.prompts.prompts > 0) {
+    p.note(formatPromptSummary(stats.prompts), "Your Prompts");
+  }
+
+  let failed = false;
+
+  if (values.output) {
+    try {
+      await Bun.write(values.output, serializeStats(stats, VERSION));
+      p.log.success(`Saved stats to ${values.output}`);
+    } catch (error) {
+      p.log.error(`Failed to save stats: ${error}`);
+      failed = true;
+    }
+  }
 
   // Generate image
   spinner.start("Generating your wrapped image...");
 
   let image: { fullSize: Buffer; displaySize: Buffer };
   try {
-    image = await generateImage(stats);
+    image = await generateImage(stats, { heatmapMetric });
   } catch (error) {
     spinner.stop("Failed to generate image");
     p.cancel(`Error generating image: ${error}`);
-    process.exit(1);
+    process.exit(ExitCode.Failure);
   }
 
   spinner.stop("Image generated!");
 
-  const displayed = await displayInTerminal(image.displaySize);
-  if (!displayed) {
-    p.log.info(`Terminal (${getTerminalName()}) doesn't support inline images`);
+  // Inline image escape sequences are just noise when stdout is piped into a log
+  if (!values["no-display"] && process.stdout.isTTY) {
+    const displayed = await displayInTerminal(image.displaySize);
+    if (!displayed) {
+      p.log.info(`Terminal (${getTerminalName()}) doesn't support inline images`);
+    }
   }
 
-  const filename = `codex-wrapped-noyrlimit-${requestedYear}.png`;
-  const { success, error } = await copyImageToClipboard(image.fullSize, filename);
+  const filename = `codex-wrapped-noyrlimit-${range.slug}.png`;
+
+  if (!values["no-clipboard"]) {
+    const { success, error } = await copyImageToClipboard(image.fullSize, filename);
+
+    if (success) {
+      p.log.success("Automatically copied image to clipboard!");
+    } else {
+      p.log.warn(`Clipboard unavailable: ${error}`);
+      if (!values.save) {
+        p.log.info("You can save the image to disk instead.");
+      }
+    }
+  }
+
+  if (values.save) {
+    const savePath = await resolveSavePath(values.save, filename);
+    if (!(await saveImage(savePath, image.fullSize))) {
+      failed = true;
+    }
+  } else if (interactive) {
+    const defaultPath = join(process.env.HOME || "~", filename);
+
+    const shouldSave = await p.confirm({
+      message: `Save image to ~/${filename}?`,
+      initialValue: true,
+    });
+
+    if (p.isCancel(shouldSave)) {
+      p.outro("Cancelled");
+      process.exit(ExitCode.Success);
+    }
 
-  if (success) {
-    p.log.success("Automatically copied image to clipboard!");
+    if (shouldSave && !(await saveImage(defaultPath, image.fullSize))) {
+      failed = true;
+    }
   } else {
-    p.log.warn(`Clipboard unavailable: ${error}`);
-    p.log.info("You can save the image to disk instead.");
+    p.log.info("Image not saved. Pass --save <path> to write it to disk.");
   }
 
-  const defaultPath = join(process.env.HOME || "~", filename);
+  if (interactive && !values["no-share"]) {
+    const shouldShare = await p.confirm({
+      message: "Share on X (Twitter)? Don't forget to attach your image!",
+      initialValue: true,
+    });
 
-  const shouldSave = await p.confirm({
-    message: `Save image to ~/${filename}?`,
-    initialValue: true,
-  });
+    if (!p.isCancel(shouldShare) && shouldShare) {
+      const tweetUrl = generateTweetUrl(stats);
+      const opened = await openUrl(tweetUrl);
+      if (opened) {
+        p.log.success("Opened X in your browser.");
+      } else {
+        p.log.warn("Couldn't open browser. Copy this URL:");
+        p.log.info(tweetUrl);
+      }
+      p.log.info("Press CMD / CTRL + V to paste the image.");
+    }
+  }
 
-  if (p.isCancel(shouldSave)) {
-    p.outro("Cancelled");
-    process.exit(0);
+  if (failed) {
+    p.outro("Finished with errors");
+    process.exit(ExitCode.Failure);
+  }
+
+  p.outro("Share your wrapped!");
+  process.exit(ExitCode.Success);
+}
+
+/** Resolve --save to a file path; an existing directory gets the default file name */
+async function resolveSavePath(target: string, filename: string): Promise<string> {
+  const absolute = resolve(expandHomeDir(target));
+  try {
+    const info = await stat(absolute);
+    if (info.isDirectory()) {
+      return join(absolute, filename);
+    }
+  } catch {
+    // Not an existing path - treat it as the file to create
+  }
+  return absolute;
+}
+
+async function saveImage(path: string, image: Buffer): Promise<boolean> {
+  try {
+    await Bun.write(path, image);
+    p.log.success(`Saved to ${path}`);
+    return true;
+  } catch (error) {
+    p.log.error(`Failed to save: ${error}`);
+    return false;
+  }
+}
+
+/**
+ * Headless variant of main() for --json: stdout carries only the JSON document,
+ * so diagnostics go to stderr and no prompts are shown.
+ */
+async function runJsonExport(
+  options: DateRangeOptions & { compare?: string },
+  source: Omit<StatsOptions, "range">,
+  outputPath?: string
+): Promise<number> {
+  let range: DateRange;
+  let compareRange: DateRange | null;
+  let timeZone: string;
+  try {
+    timeZone = resolveTimeZone(source.timeZone);
+    const today = getTodayKey(timeZone);
+    range = resolveDateRange(options, today);
+    compareRange = options.compare !== undefined ? resolveComparisonRange(range, options.compare, today) : null;
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    return ExitCode.Failure;
+  }
+
+  const dataExists = await checkCodexDataExists(source.codexHomes);
+  if (!dataExists) {
+    console.error(`Codex data not found in ${describeCodexHomes(source.codexHomes)}`);
+    return ExitCode.NoData;
+  }
+
+  let stats: CodexStats;
+  try {
+    stats = await calculateStatsWithComparison(source, range, timeZone, compareRange);
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    return ExitCode.Failure;
   }
 
-  if (shouldSave) {
+  const json = serializeStats(stats, VERSION);
+  if (outputPath) {
     try {
-      await Bun.write(defaultPath, image.fullSize);
-      p.log.success(`Saved to ${defaultPath}`);
+      await Bun.write(outputPath, json);
     } catch (error) {
-      p.log.error(`Failed to save: ${error}`);
+      console.error(`Failed to save stats: ${error}`);
+      return ExitCode.Failure;
     }
+    console.error(`Saved stats to ${outputPath}`);
+  } else {
+    process.stdout.write(json);
   }
 
-  const shouldShare = await p.confirm({
-    message: "Share on X (Twitter)? Don't forget to attach your image!",
-    initialValue: true,
-  });
+  // The (empty) document is still written so consumers can record the zero
+  return stats.totalSessions === 0 ? ExitCode.NoActivity : ExitCode.Success;
+}
+
+/** Stats for `range`, with deltas against `compareRange` (--compare) when one is given */
+async function calculateStatsWithComparison(
+  source: Omit<StatsOptions, "range">,
+  range: DateRange,
+  timeZone: string,
+  compareRange: DateRange | null
+): Promise<CodexStats> {
+  const stats = await calculateStats({ ...source, range, timeZone });
+  if (!compareRange || stats.totalSessions === 0) return stats;
+
+  const previous = await calculateStats({ ...source, range: compareRange, timeZone });
+  return { ...stats, comparison: compareStats(stats, previous) };
+}
+
+function parseIdleGap(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const minutes = Number(value);
+  // Activity is cached as segments with pauses of up to a minute merged in
+  if (!Number.isFinite(minutes) || minutes < 1) {
+    throw new Error(`Invalid --idle-gap "${value}" (expected at least 1 minute, e.g. 15)`);
+  }
+  return minutes;
+}
+
+function parseTop(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const top = Number(value);
+  if (!Number.isInteger(top) || top < 1) {
+    throw new Error(`Invalid --top "${value}" (expected a whole number, e.g. ${DEFAULT_TOP + 2})`);
+  }
+  return top;
+}
+
+function parseHeatmapMetric(value: string | undefined): HeatmapMetric {
+  if (value === undefined) return "messages";
+  if (!(HEATMAP_METRICS as readonly string[]).includes(value)) {
+    throw new Error(`Invalid --heatmap-metric "${value}" (expected one of ${HEATMAP_METRICS.join(", ")})`);
+  }
+  return value as HeatmapMetric;
+}
 
-  if (!p.isCancel(shouldShare) && shouldShare) {
-    const tweetUrl = generateTweetUrl(stats);
-    const opened = await openUrl(tweetUrl);
-    if (opened) {
-      p.log.success("Opened X in your browser.");
+function parseStreakMode(value: string | undefined): StreakMode {
+  if (value === undefined) return "daily";
+  if (!(STREAK_MODES as readonly string[]).includes(value)) {
+    throw new Error(`Invalid --streak "${value}" (expected one of ${STREAK_MODES.join(", ")})`);
+  }
+  return value as StreakMode;
+}
+
+/** Comma-separated weekday names and YYYY-MM-DD dates, e.g. "sat,sun,2026-12-25" */
+function parseRestDays(value: string | undefined): Pick<StreakOptions, "restWeekdays" | "restDates"> {
+  if (value === undefined) return {};
+  const restWeekdays: number[] = [];
+  const restDates: string[] = [];
+  for (const item of value.split(",").map((part) => part.trim().toLowerCase())) {
+    const weekday = WEEKDAY_NAMES.findIndex((name) => item === name || item === name.slice(0, 3));
+    if (weekday !== -1) {
+      restWeekdays.push(weekday);
+    } else if (/^\d/.test(item)) {
+      restDates.push(parseDateOption("--rest-days", item));
     } else {
-      p.log.warn("Couldn't open browser. Copy this URL:");
-      p.log.info(tweetUrl);
+      throw new Error(`Invalid --rest-days "${value}" (expected weekday names and YYYY-MM-DD dates, e.g. sat,sun,2026-12-25)`);
     }
-    p.log.info("Press CMD / CTRL + V to paste the image.");
   }
+  return { restWeekdays, restDates };
+}
 
-  p.outro("Share your wrapped!");
-  process.exit(0);
+function formatProjectsTable(stats: CodexStats): string {
+  return formatTable(
+    [
+      { header: "Project" },
+      { header: "Sessions", align: "right" },
+      { header: "Messages", align: "right" },
+      { header: "Tokens", align: "right" },
+      { header: "Cost", align: "right" },
+      { header: "Days", align: "right" },
+      { header: "Lines +/-", align: "right" },
+      { header: "Last Used", align: "right" },
+    ],
+    stats.projects.map((project) => [
+      truncate(project.name, 32),
+      formatNumber(project.sessions),
+      formatNumber(project.messages),
+      formatNumber(project.tokens),
+      stats.hasUsageCost ? formatCostFull(project.cost) : "-",
+      formatNumber(project.activeDays),
+      `+${formatNumber(project.codeChanges.additions)}/-${formatNumber(project.codeChanges.deletions)}`,
+      project.lastUsed ? formatShortDate(project.lastUsed, stats.timeZone) : "-",
+    ])
+  );
+}
+
+function formatModelsTable(stats: CodexStats): string {
+  return formatTable(
+    [
+      { header: "Model" },
+      { header: "Tokens", align: "right" },
+      { header: "Input", align: "right" },
+      { header: "Cached", align: "right" },
+      { header: "Output", align: "right" },
+      { header: "Reasoning", align: "right" },
+      { header: "Prompts", align: "right" },
+      { header: "Cache Hits", align: "right" },
+      { header: "Cost", align: "right" },
+      { header: "Share", align: "right" },
+    ],
+    stats.topModels.map((model) => [
+      truncate(model.name, 24),
+      formatNumber(model.count),
+      formatNumber(model.inputTokens),
+      formatNumber(model.cachedInputTokens),
+      formatNumber(model.outputTokens),
+      formatNumber(model.reasoningTokens),
+      formatNumber(model.messages),
+      formatRatio(model.cachedInputRatio),
+      stats.hasUsageCost ? formatCostFull(model.cost) : "-",
+      `${(stats.hasUsageCost ? model.costPercentage : model.percentage).toFixed(1)}%`,
+    ])
+  );
+}
+
+function formatMonthlyTable(stats: CodexStats): string {
+  return formatTable(
+    [
+      { header: "Month" },
+      { header: "Sessions", align: "right" },
+      { header: "Messages", align: "right" },
+      { header: "Input", align: "right" },
+      { header: "Cached", align: "right" },
+      { header: "Output", align: "right" },
+      { header: "Reasoning", align: "right" },
+      { header: "Cache Hits", align: "right" },
+      { header: "Cost", align: "right" },
+      { header: "Top Model" },
+    ],
+    stats.monthly.map((month) => {
+      const [topModel] = month.costByModel.keys();
+      return [
+        month.month,
+        formatNumber(month.sessions),
+        formatNumber(month.messages),
+        formatNumber(month.inputTokens),
+        formatNumber(month.cachedInputTokens),
+        formatNumber(month.outputTokens),
+        formatNumber(month.reasoningTokens),
+        formatRatio(month.cachedInputRatio),
+        stats.hasUsageCost ? formatCostFull(month.cost) : "-",
+        topModel ? truncate(getModelDisplayName(topModel), 20) : "-",
+      ];
+    })
+  );
+}
+
+function formatToolsTable(stats: CodexStats): string {
+  return formatTable(
+    [{ header: "Tool" }, { header: "Kind" }, { header: "Calls", align: "right" }, { header: "Share", align: "right" }],
+    stats.tools.map((tool) => [
+      truncate(tool.name, 40),
+      tool.kind,
+      formatNumber(tool.count),
+      `${tool.percentage.toFixed(1)}%`,
+    ])
+  );
+}
+
+function formatShellCommandsTable(stats: CodexStats): string {
+  return formatTable(
+    [{ header: "Command" }, { header: "Runs", align: "right" }, { header: "Share", align: "right" }],
+    stats.topShellCommands.map((command) => [
+      truncate(command.program, 32),
+      formatNumber(command.count),
+      `${command.percentage.toFixed(1)}%`,
+    ])
+  );
+}
+
+function formatPromptSummary(prompts: PromptStats): string {
+  const lines = [
+    `Prompts:       ${formatNumberFull(prompts.prompts)} · avg ${Math.round(prompts.averageWords)} words, median ${prompts.medianWords} words`,
+    `Longest:       ${prompts.longest ? `${formatNumberFull(prompts.longest.words)} words` : "N/A"}`,
+    `Images:        ${formatNumberFull(prompts.images)} in ${formatNumberFull(prompts.promptsWithImages)} prompts`,
+    `Lengths:       ${prompts.lengthDistribution
+      .filter((bucket) => bucket.count > 0)
+      .map((bucket) => `${bucket.label.replace(" words", "")} ${Math.round(bucket.percentage)}%`)
+      .join(" · ")}`,
+  ];
+
+  const rows = Math.max(prompts.topWords.length, prompts.topSlashCommands.length);
+  if (rows === 0) return lines.join("\n");
+
+  const table = formatTable(
+    [{ header: "Word" }, { header: "Uses", align: "right" }, { header: "Command" }, { header: "Uses", align: "right" }],
+    Array.from({ length: rows }, (_, i) => {
+      const word = prompts.topWords[i];
+      const command = prompts.topSlashCommands[i];
+      return [
+        word ? truncate(word.word, 24) : "",
+        word ? formatNumber(word.count) : "",
+        command ? truncate(command.command, 24) : "",
+        command ? formatNumber(command.count) : "",
+      ];
+    })
+  );
+  return `${lines.join("\n")}\n\n${table}`;
+}
+
+const COMPARISON_ROWS: Array<{
+  metric: ComparisonMetric;
+  label: string;
+  format: (value: number, stats: CodexStats) => string;
+}> = [
+  { metric: "sessions", label: "Sessions", format: formatNumberFull },
+  { metric: "messages", label: "Messages", format: formatNumberFull },
+  { metric: "tokens", label: "Tokens", format: formatNumber },
+  { metric: "cost", label: "Usage Cost", format: formatCostFull },
+  { metric: "projects", label: "Projects", format: formatNumberFull },
+  { metric: "streak", label: "Streak", format: (length, stats) => formatStreakLength(length, stats.streak) },
+  { metric: "activeDays", label: "Active Days", format: formatNumberFull },
+  { metric: "activeHours", label: "Hours Active", format: (hours) => formatDuration(hours * 60) },
+  { metric: "linesWritten", label: "Lines Written", format: formatNumberFull },
+  { metric: "toolCalls", label: "Tool Calls", format: formatNumberFull },
+];
+
+function formatComparison(stats: CodexStats, comparison: StatsComparison): string {
+  const rows = COMPARISON_ROWS.filter(({ metric }) => {
+    if (metric === "cost" && !stats.hasUsageCost) return false;
+    const delta = comparison.metrics[metric];
+    return delta.current > 0 || delta.previous > 0;
+  });
+
+  const table = formatTable(
+    [
+      { header: "" },
+      { header: comparison.range.label, align: "right" },
+      { header: stats.range.label, align: "right" },
+      { header: "Change", align: "right" },
+    ],
+    rows.map(({ metric, label, format }) => {
+      const delta = comparison.metrics[metric];
+      return [label, format(delta.previous, stats), format(delta.current, stats), formatDelta(delta)];
+    })
+  );
+
+  const models = [
+    comparison.newModels.length > 0 && `New models:     ${comparison.newModels.map((model) => model.name).join(", ")}`,
+    comparison.droppedModels.length > 0 &&
+      `Dropped models: ${comparison.droppedModels.map((model) => model.name).join(", ")}`,
+  ].filter(Boolean);
+  return models.length > 0 ? `${table}\n\n${models.join("\n")}` : table;
+}
+
+/** e.g. "12 days" or "1 week" */
+function formatStreakLength(length: number, streak: StreakStats): string {
+  return `${length} ${streak.unit}${length === 1 ? "" : "s"}`;
+}
+
+/** e.g. "12 days (weekdays, Mar 2 – Mar 17) · current 3 days · longest break 9 days" */
+function formatStreakSummary(stats: CodexStats): string {
+  const { streak } = stats;
+  const longest = streak.longest
+    ? `${formatStreakLength(streak.longest.length, streak)} (${streak.definition}, ${formatDateKeyRange(streak.longest.from, streak.longest.to)})`
+    : `0 ${streak.unit}s (${streak.definition})`;
+  return [
+    longest,
+    streak.current > 0 && `current ${formatStreakLength(streak.current, streak)}`,
+    streak.longestBreak && `longest break ${streak.longestBreak.days} ${streak.longestBreak.days === 1 ? "day" : "days"}`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+/** e.g. "$41.20 saved (38% of $108.40 without caching) · 57% of input cached" */
+function formatCacheSavings(stats: CodexStats): string {
+  const { cacheSavings } = stats;
+  const saved = `${formatCostFull(cacheSavings.saved)} saved (${Math.round(cacheSavings.savedPercentage)}% of ${formatCostFull(cacheSavings.costWithoutCache)} without caching)`;
+  return cacheSavings.cachedInputRatio === null
+    ? saved
+    : `${saved} · ${Math.round(cacheSavings.cachedInputRatio * 100)}% of input cached`;
+}
+
+/** e.g. "avg fill 31%, avg peak 53% · 148 auto / 37 manual compactions · 9 out of context" */
+function formatContextSummary(stats: CodexStats): string {
+  const { context } = stats;
+  return [
+    `avg fill ${Math.round(context.averageFillPercent)}%, avg peak ${Math.round(context.averagePeakFillPercent)}%`,
+    `${context.autoCompactions} auto / ${context.manualCompactions} manual compactions`,
+    `${context.sessionsOutOfContext} out of context`,
+  ].join(" · ");
+}
+
+/** Peak and limit hits per window, e.g. "5h peak 100% (2 hits, 5 near) · Weekly peak 64% (0 hits, 0 near)" */
+function formatRateLimitSummary(stats: CodexStats): string {
+  return stats.rateLimits.windows
+    .map((window) => {
+      const hits = `${window.hits} ${window.hits === 1 ? "hit" : "hits"}`;
+      return `${window.label} peak ${Math.round(window.peakPercent)}% (${hits}, ${window.approaches} near)`;
+    })
+    .join(" · ");
+}
+
+/** One sparkline row per rate-limit window, a character per week of the range */
+function formatRateLimitTimeline(stats: CodexStats): string {
+  const today = getTodayKey(stats.timeZone);
+  const end = stats.range.to < today ? stats.range.to : today;
+  const labelWidth = Math.max(...stats.rateLimits.windows.map((window) => window.label.length));
+  return stats.rateLimits.windows
+    .map((window) => {
+      const peaks = bucketDailyPeaks(window.dailyPeak, stats.range.from, end, 7);
+      return `${window.label.padEnd(labelWidth)}  ${formatSparkline(peaks, 100)}`;
+    })
+    .join("\n");
+}
+
+function formatRatio(ratio: number | null): string {
+  return ratio === null ? "-" : `${Math.round(ratio * 100)}%`;
+}
+
+/** Top entries by share, e.g. "High 52% · Medium 41% · Low 7%" */
+function formatShares(items: Array<{ label: string; percentage: number }>): string {
+  return items
+    .slice(0, 3)
+    .map((item) => `${item.label} ${Math.round(item.percentage)}%`)
+    .join(" · ");
+}
+
+/** Versions in order of first use in the range, e.g. "0.40.0 → 0.46.0 (4 versions)" */
+function formatCliVersions(stats: CodexStats): string {
+  const { cliVersions } = stats;
+  const first = cliVersions[0].version;
+  const last = cliVersions[cliVersions.length - 1].version;
+  if (cliVersions.length === 1) return first;
+  return `${first} → ${last} (${cliVersions.length} versions)`;
+}
+
+function describeCodexHomes(codexHomes: string[]): string {
+  const home = os.homedir();
+  return codexHomes.map((dir) => (dir.startsWith(`${home}/`) ? `~${dir.slice(home.length)}` : dir)).join(", ");
 }
 
 function generateTweetUrl(stats: CodexStats): string {
   const lines: string[] = [];
-  lines.push(`Codex Wrapped ${stats.year}`);
+  lines.push(`Codex Wrapped ${stats.range.label}`);
   lines.push("");
   lines.push(`Total Tokens: ${formatNumberFull(stats.totalTokens)}`);
   lines.push(`Total Messages: ${formatNumberFull(stats.totalMessages)}`);
   lines.push(`Total Sessions: ${formatNumberFull(stats.totalSessions)}`);
   lines.push("");
-  lines.push(`Longest Streak: ${stats.maxStreak} days`);
+  lines.push(`Longest Streak: ${formatStreakLength(stats.maxStreak, stats.streak)}`);
   lines.push(`Top model: ${stats.topModels[0]?.name ?? "N/A"}`);
   lines.push(
     `Total Estimated Cost: ${stats.hasUsageCost ? formatCostFull(stats.totalCost) : "N/A"}`
@@ -238,5 +895,5 @@ async function openUrl(url: string): Promise<boolean> {
 
 main().catch((error) => {
   console.error("Unexpected error:", error);
-  process.exit(1);
+  process.exit(ExitCode.Failure);
 });
@@ -0,0 +1,112 @@
+// Code changes - counts lines and files from the patches Codex applied
+
+import { isAbsolute, resolve } from "node:path";
+
+export interface ParsedPatch {
+  additions: number;
+  deletions: number;
+  /** Absolute paths the patch touched (including move targets) */
+  files: string[];
+}
+
+/**
+ * Count a `patch_apply_begin` event's `changes`, which map each path to
+ * `{ add: { content } }`, `{ delete: { content } }` or `{ update: { unified_diff, move_path } }`.
+ */
+export function parsePatchChanges(changes: unknown, cwd: string | undefined): ParsedPatch | null {
+  if (!changes || typeof changes !== "object") return null;
+
+  const patch: ParsedPatch = { additions: 0, deletions: 0, files: [] };
+  for (const [path, change] of Object.entries(changes as Record<string, Record<string, unknown>>)) {
+    if (!change || typeof change !== "object") continue;
+    patch.files.push(resolvePatchPath(path, cwd));
+
+    const add = change.add as Record<string, unknown> | undefined;
+    const remove = change.delete as Record<string, unknown> | undefined;
+    const update = change.update as Record<string, unknown> | undefined;
+
+    if (add) {
+      patch.additions += countContentLines(add.content);
+    } else if (remove) {
+      patch.deletions += countContentLines(remove.content);
+    } else if (update) {
+      const diff = countUnifiedDiff(update.unified_diff);
+      patch.additions += diff.additions;
+      patch.deletions += diff.deletions;
+      if (typeof update.move_path === "string" && update.move_path) {
+        patch.files.push(resolvePatchPath(update.move_path, cwd));
+      }
+    }
+  }
+
+  return patch.files.length > 0 ? patch : null;
+}
+
+/**
+ * Count an apply_patch tool input ("*** Begin Patch ... *** End Patch").
+ * Used for rollouts written before Codex logged patch_apply events.
+ */
+export function parseApplyPatchInput(input: unknown, cwd: string | undefined): ParsedPatch | null {
+  if (typeof input !== "string" || !input.includes("*** Begin Patch")) return null;
+
+  const patch: ParsedPatch = { additions: 0, deletions: 0, files: [] };
+  for (const line of input.split("\n")) {
+    const header = /^\*\*\* (?:Add File|Delete File|Update File|Move to): (.+)$/.exec(line);
+    if (header) {
+      patch.files.push(resolvePatchPath(header[1].trim(), cwd));
+    } else if (line.startsWith("+")) {
+      patch.additions += 1;
+    } else if (line.startsWith("-")) {
+      patch.deletions += 1;
+    }
+  }
+
+  return patch.files.length > 0 ? patch : null;
+}
+
+/** Patch text of an apply_patch call: a freeform input, `{ input }` arguments or an `apply_patch <patch>` argv */
+export function getApplyPatchInput(payload: Record<string, unknown>): string | undefined {
+  if (typeof payload.input === "string") return payload.input;
+  if (typeof payload.arguments !== "string") return undefined;
+
+  try {
+    const args = JSON.parse(payload.arguments);
+    if (typeof args?.input === "string") return args.input;
+    if (Array.isArray(args?.command) && args.command[0] === "apply_patch" && typeof args.command[1] === "string") {
+      return args.command[1];
+    }
+  } catch {
+    // Not JSON - not a patch
+  }
+  return undefined;
+}
+
+function countUnifiedDiff(diff: unknown): { additions: number; deletions: number } {
+  const counts = { additions: 0, deletions: 0 };
+  if (typeof diff !== "string") return counts;
+
+  // File headers ("--- a/x", "+++ b/x") only appear before the first hunk
+  let inHunk = false;
+  for (const line of diff.split("\n")) {
+    if (line.startsWith("@@")) {
+      inHunk = true;
+    } else if (!inHunk) {
+      continue;
+    } else if (line.startsWith("+")) {
+      counts.additions += 1;
+    } else if (line.startsWith("-")) {
+      counts.deletions += 1;
+    }
+  }
+  return counts;
+}
+
+function countContentLines(content: unknown): number {
+  if (typeof content !== "string" || content === "") return 0;
+  const lines = content.split("\n");
+  return content.endsWith("\n") ? lines.length - 1 : lines.length;
+}
+
+function resolvePatchPath(path: string, cwd: string | undefined): string {
+  return isAbsolute(path) || !cwd ? path : resolve(cwd, path);
+}
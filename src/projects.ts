@@ -0,0 +1,243 @@
+// Project identity - groups session working directories by git repository
+
+import { readFile, stat } from "node:fs/promises";
+import { basename, dirname, join, resolve, sep } from "node:path";
+import { xdgConfig } from "xdg-basedir";
+
+import { expandHomeDir } from "./utils/paths";
+
+const DEFAULT_PROJECT_MAP_PATH = xdgConfig ? join(xdgConfig, "codex-wrapped-noyrlimit", "projects.json") : null;
+
+export interface ProjectIdentity {
+  /** Grouping key: override name, normalized remote, repository root or raw cwd */
+  id: string;
+  /** Display name, e.g. "acme/app" */
+  name: string;
+  /** Directory on disk */
+  path: string;
+}
+
+/** Path prefix -> project name, sorted longest prefix first */
+export type ProjectOverrides = Array<{ path: string; name: string }>;
+
+interface GitRepository {
+  root: string;
+  gitDir: string;
+}
+
+const gitRepositoryCache = new Map<string, Promise<GitRepository | null>>();
+const originUrlCache = new Map<string, Promise<string | undefined>>();
+
+/**
+ * Load the override mapping file. It is a JSON object of path prefixes to project names:
+ *
+ *   { "~/src/monorepo/packages/web": "web", "~/src/app-worktrees": "acme/app" }
+ *
+ * An explicitly passed file must exist; the default one under $XDG_CONFIG_HOME is optional.
+ */
+export async function loadProjectOverrides(explicitPath?: string): Promise<ProjectOverrides> {
+  const path = explicitPath ? resolve(expandHomeDir(explicitPath)) : DEFAULT_PROJECT_MAP_PATH;
+  if (!path) return [];
+
+  let raw: string;
+  try {
+    raw = await readFile(path, "utf8");
+  } catch (error) {
+    if (explicitPath) {
+      throw new Error(`Cannot read project map ${path}: ${error instanceof Error ? error.message : error}`);
+    }
+    return [];
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error(`Project map ${path} is not valid JSON`);
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error(`Project map ${path} must be an object of path prefixes to project names`);
+  }
+
+  const overrides: ProjectOverrides = [];
+  for (const [prefix, name] of Object.entries(parsed as Record<string, unknown>)) {
+    if (typeof name !== "string" || !name.trim()) continue;
+    overrides.push({ path: stripTrailingSeparator(resolve(expandHomeDir(prefix))), name: name.trim() });
+  }
+
+  return overrides.sort((a, b) => b.path.length - a.path.length);
+}
+
+/**
+ * Resolve the project a working directory belongs to.
+ * Overrides win, then the repository (by origin remote, so clones and worktrees group together),
+ * then the raw cwd for directories outside of git.
+ */
+export async function resolveProject(
+  cwd: string,
+  repositoryUrl: string | undefined,
+  overrides: ProjectOverrides = []
+): Promise<ProjectIdentity> {
+  const override = findOverride(cwd, overrides);
+  if (override) {
+    return { id: `override:${override.name}`, name: override.name, path: override.path };
+  }
+
+  const repository = await findGitRepository(cwd);
+  const remoteUrl = repositoryUrl ?? (repository ? await readOriginUrl(repository.gitDir) : undefined);
+  const remoteKey = remoteUrl ? normalizeRemoteUrl(remoteUrl) : undefined;
+  const path = repository?.root ?? cwd;
+
+  if (remoteUrl && remoteKey) {
+    return { id: `remote:${remoteKey}`, name: getRepositoryName(remoteUrl) ?? basename(path), path };
+  }
+
+  return { id: path, name: basename(path) || path, path };
+}
+
+/**
+ * Extract "owner/repo" from a git remote URL.
+ * Handles scp-like (git@host:owner/repo.git), https:// and ssh:// remotes.
+ */
+export function getRepositoryName(remoteUrl: string): string | undefined {
+  const segments = getRemotePath(remoteUrl).split("/").filter(Boolean);
+  if (segments.length === 0) return undefined;
+  return segments.slice(-2).join("/");
+}
+
+function normalizeRemoteUrl(remoteUrl: string): string | undefined {
+  const trimmed = stripRemoteSuffix(remoteUrl);
+  const scpLike = /^[^@/]+@([^:/]+):(.+)$/.exec(trimmed);
+  let host = "";
+  if (scpLike) {
+    host = scpLike[1];
+  } else {
+    try {
+      host = new URL(trimmed).hostname;
+    } catch {
+      // Local path remote
+    }
+  }
+
+  const path = getRemotePath(remoteUrl).split("/").filter(Boolean).join("/");
+  if (!path) return undefined;
+  return `${host}/${path}`.toLowerCase();
+}
+
+function getRemotePath(remoteUrl: string): string {
+  const trimmed = stripRemoteSuffix(remoteUrl);
+  const scpLike = /^[^@/]+@[^:/]+:(.+)$/.exec(trimmed);
+  if (scpLike) {
+    return scpLike[1];
+  }
+  try {
+    return new URL(trimmed).pathname;
+  } catch {
+    return trimmed;
+  }
+}
+
+function stripRemoteSuffix(remoteUrl: string): string {
+  return remoteUrl.trim().replace(/\/+$/, "").replace(/\.git$/, "");
+}
+
+function findOverride(cwd: string, overrides: ProjectOverrides): ProjectOverrides[number] | undefined {
+  const normalized = stripTrailingSeparator(resolve(cwd));
+  return overrides.find((override) => normalized === override.path || normalized.startsWith(`${override.path}${sep}`));
+}
+
+function stripTrailingSeparator(path: string): string {
+  return path.length > 1 && path.endsWith(sep) ? path.slice(0, -1) : path;
+}
+
+function findGitRepository(cwd: string): Promise<GitRepository | null> {
+  const key = resolve(cwd);
+  let pending = gitRepositoryCache.get(key);
+  if (!pending) {
+    pending = lookupGitRepository(key);
+    gitRepositoryCache.set(key, pending);
+  }
+  return pending;
+}
+
+/** Walk up from dir to the nearest `.git`, following worktree and submodule `.git` files */
+async function lookupGitRepository(dir: string): Promise<GitRepository | null> {
+  let current = dir;
+
+  while (true) {
+    const dotGit = join(current, ".git");
+    try {
+      const info = await stat(dotGit);
+      if (info.isDirectory()) {
+        return { root: current, gitDir: dotGit };
+      }
+      if (info.isFile()) {
+        return await resolveGitFile(current, dotGit);
+      }
+    } catch {
+      // No .git here - keep walking up
+    }
+
+    const parent = dirname(current);
+    if (parent === current) {
+      return null;
+    }
+    current = parent;
+  }
+}
+
+async function resolveGitFile(root: string, dotGitFile: string): Promise<GitRepository> {
+  try {
+    const match = /^gitdir:\s*(.+)$/m.exec(await readFile(dotGitFile, "utf8"));
+    if (!match) return { root, gitDir: dotGitFile };
+    const gitDir = resolve(root, match[1].trim());
+
+    // Linked worktrees point at <main>/.git/worktrees/<name>, whose commondir leads back to the main repository
+    try {
+      const commonDir = resolve(gitDir, (await readFile(join(gitDir, "commondir"), "utf8")).trim());
+      if (basename(commonDir) === ".git") {
+        return { root: dirname(commonDir), gitDir: commonDir };
+      }
+      return { root, gitDir: commonDir };
+    } catch {
+      // Submodule or plain gitdir indirection
+      return { root, gitDir };
+    }
+  } catch {
+    return { root, gitDir: dotGitFile };
+  }
+}
+
+function readOriginUrl(gitDir: string): Promise<string | undefined> {
+  let pending = originUrlCache.get(gitDir);
+  if (!pending) {
+    pending = lookupOriginUrl(gitDir);
+    originUrlCache.set(gitDir, pending);
+  }
+  return pending;
+}
+
+async function lookupOriginUrl(gitDir: string): Promise<string | undefined> {
+  let config: string;
+  try {
+    config = await readFile(join(gitDir, "config"), "utf8");
+  } catch {
+    return undefined;
+  }
+
+  let inOrigin = false;
+  for (const line of config.split("\n")) {
+    const trimmed = line.trim();
+    if (trimmed.startsWith("[")) {
+      inOrigin = /^\[remote\s+"origin"\]$/.test(trimmed);
+      continue;
+    }
+    if (!inOrigin) continue;
+    const match = /^url\s*=\s*(.+)$/.exec(trimmed);
+    if (match) {
+      return match[1].trim();
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,86 @@
+// Prompt analytics - length, attachments and vocabulary of the prompts you sent (opt-in, never cached)
+
+/** Upper bounds (in words) of the prompt length buckets; the last bucket is open-ended */
+export const PROMPT_LENGTH_BUCKETS = [10, 25, 50, 100, 250];
+
+const MIN_WORD_LENGTH = 3;
+
+// Common English words plus the filler every coding prompt has
+const STOP_WORDS = new Set(
+  (
+    "the and for are but not you all any can had her was one our out has him his how its may new now old see two way " +
+    "who did get let put say she too use that with have this will your from they know want been good much some time " +
+    "very when come here just like long make many more only over such take than them well were what where which while " +
+    "would there their these those then into also about after again could should other because being does doing each " +
+    "few most same both own off once under until why yes no nor between through during before above below further " +
+    "please thanks thank can't don't it's i'm let's i'd i've we're you're okay still need make sure lets via etc"
+  ).split(" ")
+);
+
+/** Running counts over prompt texts; holds words and counts only, never the prompts themselves */
+export interface PromptTally {
+  prompts: number;
+  totalWords: number;
+  totalChars: number;
+  /** Word count of every prompt, for the median */
+  wordCounts: number[];
+  lengthBuckets: number[];
+  longest: { words: number; chars: number; timestamp: string } | null;
+  images: number;
+  promptsWithImages: number;
+  words: Map<string, number>;
+  slashCommands: Map<string, number>;
+}
+
+export function createPromptTally(): PromptTally {
+  return {
+    prompts: 0,
+    totalWords: 0,
+    totalChars: 0,
+    wordCounts: [],
+    lengthBuckets: new Array(PROMPT_LENGTH_BUCKETS.length + 1).fill(0),
+    longest: null,
+    images: 0,
+    promptsWithImages: 0,
+    words: new Map(),
+    slashCommands: new Map(),
+  };
+}
+
+/** Count one `user_message` payload */
+export function addPromptToTally(tally: PromptTally, payload: Record<string, unknown>, timestamp: string): void {
+  const text = typeof payload.message === "string" ? payload.message.trim() : "";
+  const images =
+    (Array.isArray(payload.images) ? payload.images.length : 0) +
+    (Array.isArray(payload.local_images) ? payload.local_images.length : 0);
+
+  const wordCount = text ? text.split(/\s+/).length : 0;
+  tally.prompts += 1;
+  tally.totalWords += wordCount;
+  tally.totalChars += text.length;
+  tally.wordCounts.push(wordCount);
+  tally.images += images;
+  if (images > 0) {
+    tally.promptsWithImages += 1;
+  }
+
+  let bucket = PROMPT_LENGTH_BUCKETS.findIndex((bound) => wordCount <= bound);
+  if (bucket === -1) bucket = PROMPT_LENGTH_BUCKETS.length;
+  tally.lengthBuckets[bucket] += 1;
+
+  if (!tally.longest || text.length > tally.longest.chars) {
+    tally.longest = { words: wordCount, chars: text.length, timestamp };
+  }
+
+  const slashCommand = /^\/([a-z][\w-]*)/i.exec(text);
+  if (slashCommand) {
+    const command = `/${slashCommand[1].toLowerCase()}`;
+    tally.slashCommands.set(command, (tally.slashCommands.get(command) || 0) + 1);
+  }
+
+  const body = slashCommand ? text.slice(slashCommand[0].length) : text;
+  for (const word of body.toLowerCase().match(/[\p{L}][\p{L}'_-]*/gu) ?? []) {
+    if (word.length < MIN_WORD_LENGTH || STOP_WORDS.has(word)) continue;
+    tally.words.set(word, (tally.words.get(word) || 0) + 1);
+  }
+}
@@ -0,0 +1,110 @@
+// Rate limits - plan usage snapshots that token_count events carry
+
+import { addDaysToDateKey, diffDateKeys } from "./utils/dates";
+
+export type RateLimitWindowName = "primary" | "secondary";
+
+export interface RateLimitWindow {
+  usedPercent: number;
+  windowMinutes?: number;
+  /** Epoch ms the window resets at */
+  resetsAt?: number;
+}
+
+export interface RateLimitSnapshot {
+  timestamp: string;
+  primary?: RateLimitWindow;
+  secondary?: RateLimitWindow;
+}
+
+export const RATE_LIMIT_WINDOWS: RateLimitWindowName[] = ["primary", "secondary"];
+
+/** A window counts as hit at 100% and as approached from this share on */
+export const RATE_LIMIT_HIT_PERCENT = 100;
+export const RATE_LIMIT_APPROACH_PERCENT = 80;
+
+/**
+ * Read the `rate_limits` of a token_count payload. Newer versions nest
+ * `{ primary: { used_percent, window_minutes, resets_in_seconds | resets_at } }`,
+ * older ones flatten them into `primary_used_percent` and friends.
+ */
+export function parseRateLimits(value: unknown, timestamp: string): RateLimitSnapshot | null {
+  if (!value || typeof value !== "object") return null;
+  const record = value as Record<string, unknown>;
+  const observedAt = Date.parse(timestamp);
+
+  const snapshot: RateLimitSnapshot = { timestamp };
+  for (const name of RATE_LIMIT_WINDOWS) {
+    const nested = record[name];
+    const window =
+      nested && typeof nested === "object"
+        ? parseWindow(nested as Record<string, unknown>, observedAt)
+        : parseWindow(
+            {
+              used_percent: record[`${name}_used_percent`],
+              window_minutes: record[`${name}_window_minutes`],
+              resets_in_seconds: record[`${name}_resets_in_seconds`],
+            },
+            observedAt
+          );
+    if (window) {
+      snapshot[name] = window;
+    }
+  }
+
+  return snapshot.primary || snapshot.secondary ? snapshot : null;
+}
+
+/** Short name for a window length, e.g. 300 -> "5h", 10080 -> "Weekly" */
+export function getRateLimitWindowLabel(name: RateLimitWindowName, windowMinutes: number | undefined): string {
+  if (!windowMinutes) return name === "primary" ? "Primary" : "Secondary";
+  if (windowMinutes === 7 * 24 * 60) return "Weekly";
+  if (windowMinutes % (24 * 60) === 0) return `${windowMinutes / (24 * 60)}d`;
+  if (windowMinutes % 60 === 0) return `${windowMinutes / 60}h`;
+  return `${windowMinutes}m`;
+}
+
+/**
+ * Highest used percent per bucket of `bucketDays` days from `from` to `to` (inclusive),
+ * for drawing a window's daily peaks as a timeline.
+ */
+export function bucketDailyPeaks(dailyPeak: Map<string, number>, from: string, to: string, bucketDays: number): number[] {
+  const days = Math.max(1, diffDateKeys(from, to) + 1);
+  const peaks: number[] = new Array(Math.ceil(days / bucketDays)).fill(0);
+  for (let day = 0; day < days; day++) {
+    const peak = dailyPeak.get(addDaysToDateKey(from, day));
+    if (peak !== undefined) {
+      const bucket = Math.floor(day / bucketDays);
+      peaks[bucket] = Math.max(peaks[bucket], peak);
+    }
+  }
+  return peaks;
+}
+
+function parseWindow(record: Record<string, unknown>, observedAt: number): RateLimitWindow | null {
+  const usedPercent = toFiniteNumber(record.used_percent);
+  if (usedPercent === undefined) return null;
+
+  const window: RateLimitWindow = { usedPercent };
+  const windowMinutes = toFiniteNumber(record.window_minutes);
+  if (windowMinutes !== undefined && windowMinutes > 0) {
+    window.windowMinutes = windowMinutes;
+  }
+
+  const resetsInSeconds = toFiniteNumber(record.resets_in_seconds);
+  const resetsAt = record.resets_at;
+  if (resetsInSeconds !== undefined && Number.isFinite(observedAt)) {
+    window.resetsAt = observedAt + resetsInSeconds * 1000;
+  } else if (typeof resetsAt === "number" && Number.isFinite(resetsAt)) {
+    // Epoch seconds
+    window.resetsAt = resetsAt * 1000;
+  } else if (typeof resetsAt === "string" && Number.isFinite(Date.parse(resetsAt))) {
+    window.resetsAt = Date.parse(resetsAt);
+  }
+
+  return window;
+}
+
+function toFiniteNumber(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
@@ -0,0 +1,87 @@
+// Session time - wall-clock duration and active time estimated from rollout timestamps
+
+import { createDateKeyResolver } from "./utils/dates";
+
+export const DEFAULT_IDLE_GAP_MINUTES = 15;
+
+/** Timestamps at most this far apart are kept as one activity segment; --idle-gap can't go below it */
+export const ACTIVITY_MERGE_GAP_MS = 60 * 1000;
+
+// Segments never span two 15-minute slots, so each falls on a single date in every time zone
+const SEGMENT_SLOT_MS = 15 * 60 * 1000;
+
+/** Start (epoch ms) and length (ms) of a stretch of rollout entries with no pause longer than ACTIVITY_MERGE_GAP_MS */
+export type ActivitySegment = [number, number];
+
+export interface SessionTime {
+  /** First to last timestamp */
+  wallClockMs: number;
+  /** Time inside segments plus the gaps between them that are no longer than the idle threshold */
+  activeMs: number;
+  /** Active time per date key, attributed to the day each segment or gap starts on */
+  dailyActiveMs: Map<string, number>;
+}
+
+/** Merge sorted epoch-ms timestamps into segments, so the parse cache doesn't hold every entry's timestamp */
+export function toActivitySegments(timestamps: number[]): ActivitySegment[] {
+  const segments: ActivitySegment[] = [];
+  for (const timestamp of timestamps) {
+    const last = segments[segments.length - 1];
+    if (
+      last &&
+      timestamp - getSegmentEnd(last) <= ACTIVITY_MERGE_GAP_MS &&
+      Math.floor(timestamp / SEGMENT_SLOT_MS) === Math.floor(last[0] / SEGMENT_SLOT_MS)
+    ) {
+      last[1] = timestamp - last[0];
+    } else {
+      segments.push([timestamp, 0]);
+    }
+  }
+  return segments;
+}
+
+/** Epoch ms of the segment's last entry */
+export function getSegmentEnd([start, durationMs]: ActivitySegment): number {
+  return start + durationMs;
+}
+
+/** The part of the segments at or after `fromMs` */
+export function trimActivitySegments(segments: ActivitySegment[], fromMs: number): ActivitySegment[] {
+  return segments
+    .filter((segment) => getSegmentEnd(segment) >= fromMs)
+    .map((segment): ActivitySegment => {
+      const start = Math.max(segment[0], fromMs);
+      return [start, getSegmentEnd(segment) - start];
+    });
+}
+
+/**
+ * Measure a session from its sorted activity segments.
+ * Gaps longer than `idleGapMs` count as the user stepping away and are left out of the active time.
+ */
+export function measureSessionTime(segments: ActivitySegment[], idleGapMs: number, timeZone: string): SessionTime {
+  const time: SessionTime = { wallClockMs: 0, activeMs: 0, dailyActiveMs: new Map() };
+  if (segments.length === 0) return time;
+
+  time.wallClockMs = getSegmentEnd(segments[segments.length - 1]) - segments[0][0];
+  if (time.wallClockMs <= 0) return time;
+
+  const getDateKeyOf = createDateKeyResolver(timeZone);
+  const addActive = (startMs: number, durationMs: number) => {
+    time.activeMs += durationMs;
+    const dateKey = getDateKeyOf(startMs);
+    time.dailyActiveMs.set(dateKey, (time.dailyActiveMs.get(dateKey) || 0) + durationMs);
+  };
+
+  for (let i = 0; i < segments.length; i++) {
+    const [start, durationMs] = segments[i];
+    if (i > 0) {
+      const previousEnd = getSegmentEnd(segments[i - 1]);
+      const gap = start - previousEnd;
+      if (gap > 0 && gap <= idleGapMs) addActive(previousEnd, gap);
+    }
+    if (durationMs > 0) addActive(start, durationMs);
+  }
+
+  return time;
+}
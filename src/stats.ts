@@ -1,7 +1,65 @@
-import type { CodexStats, ModelStats, ProviderStats, WeekdayActivity } from "./types";
-import { collectCodexUsageData, getCodexFirstPromptTimestamp, type CodexUsageEvent } from "./collector";
+import type {
+  CacheSavingsStats,
+  CliVersionStats,
+  ClientStats,
+  CodeChangeStats,
+  CodeChangeSummary,
+  CodexStats,
+  ContextStats,
+  DateRange,
+  HourlyActivity,
+  ModelStats,
+  MonthlyStats,
+  ProjectStats,
+  PromptStats,
+  ProviderStats,
+  RateLimitStats,
+  RateLimitWindowStats,
+  SessionTimeStats,
+  ShellCommandStats,
+  ToolStats,
+  TurnSettingKind,
+  TurnSettingStats,
+  WeekdayActivity,
+} from "./types";
+import {
+  collectCodexUsageData,
+  getCodexFirstPromptTimestamp,
+  type CodexClientUsage,
+  type CodexCodeChanges,
+  type CodexContextUsage,
+  type CodexProjectUsage,
+  type CodexTimeUsage,
+  type CodexToolCall,
+  type CodexTurn,
+  type CodexUsageEvent,
+  type CollectOptions,
+} from "./collector";
+import { getClientInfo } from "./clients";
+import { CONTEXT_FILL_BUCKETS } from "./context-window";
 import { getModelDisplayName, getModelProvider, getProviderDisplayName } from "./models";
 import { calculateCostUSD, getModelPricing } from "./pricing";
+import { PROMPT_LENGTH_BUCKETS, type PromptTally } from "./prompts";
+import {
+  getRateLimitWindowLabel,
+  RATE_LIMIT_APPROACH_PERCENT,
+  RATE_LIMIT_HIT_PERCENT,
+  RATE_LIMIT_WINDOWS,
+  type RateLimitSnapshot,
+} from "./rate-limits";
+import { DEFAULT_IDLE_GAP_MINUTES } from "./session-time";
+import { awardAchievements } from "./achievements";
+import { CHRONOTYPE_NAMES, classifyChronotype } from "./chronotype";
+import { calculateStreaks, type StreakOptions } from "./streaks";
+import { DEFAULT_SETTING, getTurnSettingLabel } from "./turn-context";
+import {
+  createDateKeyResolver,
+  formatDateKey,
+  getDateKeyWeekday,
+  getTodayKey,
+  parseDateKey,
+  resolveTimeZone,
+} from "./utils/dates";
 
 type ModelUsageTotals = {
   inputTokens: number;
@@ -11,17 +69,41 @@ type ModelUsageTotals = {
   totalTokens: number;
 };
 
-export async function calculateStats(year: number): Promise<CodexStats> {
-  const usageData = await collectCodexUsageData(year);
+type TurnSettingUsage = {
+  turns: number;
+  modelUsage: Map<string, ModelUsageTotals>;
+};
+
+const TURN_SETTING_KINDS: TurnSettingKind[] = ["reasoningEffort", "approvalPolicy", "sandboxMode"];
+
+export const DEFAULT_TOP = 3;
+
+export interface StatsOptions extends CollectOptions {
+  /** Models listed in topModels (default: 3) */
+  top?: number;
+  /** What counts as a streak (default: consecutive days) */
+  streak?: StreakOptions;
+}
+
+export async function calculateStats(options: StatsOptions): Promise<CodexStats> {
+  const { range } = options;
+  const timeZone = resolveTimeZone(options.timeZone);
+  const usageData = await collectCodexUsageData({ ...options, timeZone });
   const dailyActivity = usageData.dailyActivity;
   const weekdayCounts: [number, number, number, number, number, number, number] = [0, 0, 0, 0, 0, 0, 0];
 
   for (const [date, count] of dailyActivity.entries()) {
-    const weekday = new Date(date).getDay();
+    const weekday = getDateKeyWeekday(date);
     weekdayCounts[weekday] += count;
   }
 
   const modelUsageTotals = new Map<string, ModelUsageTotals>();
+  const monthlyModelUsageTotals = new Map<string, Map<string, ModelUsageTotals>>();
+  const dailyModelUsageTotals = new Map<string, Map<string, ModelUsageTotals>>();
+  const getDateKeyOf = createDateKeyResolver(timeZone);
+  const projectModelUsageTotals = new Map<string, Map<string, ModelUsageTotals>>();
+  const clientModelUsageTotals = new Map<string, Map<string, ModelUsageTotals>>();
+  const turnSettingUsage = createTurnSettingUsage(usageData.turns);
 
   let totalInputTokens = 0;
   let totalCachedInputTokens = 0;
@@ -38,12 +120,46 @@ export async function calculateStats(year: number): Promise<CodexStats> {
     totalReasoningTokens += event.reasoningOutputTokens;
     totalTokens += eventTotal;
 
-    const usage = getOrCreateModelUsage(modelUsageTotals, event.model);
-    usage.inputTokens += event.inputTokens;
-    usage.cachedInputTokens += event.cachedInputTokens;
-    usage.outputTokens += event.outputTokens;
-    usage.reasoningTokens += event.reasoningOutputTokens;
-    usage.totalTokens += eventTotal;
+    addEventToModelUsage(getOrCreateModelUsage(modelUsageTotals, event.model), event, eventTotal);
+
+    const dateKey = getDateKeyOf(Date.parse(event.timestamp));
+    let dayUsage = dailyModelUsageTotals.get(dateKey);
+    if (!dayUsage) {
+      dayUsage = new Map();
+      dailyModelUsageTotals.set(dateKey, dayUsage);
+    }
+    addEventToModelUsage(getOrCreateModelUsage(dayUsage, event.model), event, eventTotal);
+
+    const monthKey = dateKey.slice(0, 7);
+    let monthUsage = monthlyModelUsageTotals.get(monthKey);
+    if (!monthUsage) {
+      monthUsage = new Map();
+      monthlyModelUsageTotals.set(monthKey, monthUsage);
+    }
+    addEventToModelUsage(getOrCreateModelUsage(monthUsage, event.model), event, eventTotal);
+
+    if (event.projectId) {
+      let projectUsage = projectModelUsageTotals.get(event.projectId);
+      if (!projectUsage) {
+        projectUsage = new Map();
+        projectModelUsageTotals.set(event.projectId, projectUsage);
+      }
+      addEventToModelUsage(getOrCreateModelUsage(projectUsage, event.model), event, eventTotal);
+    }
+
+    if (event.originator) {
+      let clientUsage = clientModelUsageTotals.get(event.originator);
+      if (!clientUsage) {
+        clientUsage = new Map();
+        clientModelUsageTotals.set(event.originator, clientUsage);
+      }
+      addEventToModelUsage(getOrCreateModelUsage(clientUsage, event.model), event, eventTotal);
+    }
+
+    for (const kind of TURN_SETTING_KINDS) {
+      const settingUsage = getOrCreateTurnSettingUsage(turnSettingUsage[kind], event.settings[kind]);
+      addEventToModelUsage(getOrCreateModelUsage(settingUsage.modelUsage, event.model), event, eventTotal);
+    }
   }
 
   const providerCounts = new Map<string, number>();
@@ -64,19 +180,30 @@ export async function calculateStats(year: number): Promise<CodexStats> {
       providerId,
       count: tokenTotal,
       percentage: 0,
+      inputTokens: usage.inputTokens,
+      cachedInputTokens: usage.cachedInputTokens,
+      outputTokens: usage.outputTokens,
+      reasoningTokens: usage.reasoningTokens,
+      messages: usageData.modelMessages.get(modelId) || 0,
+      cost: await calculateUsageCost(new Map([[modelId, usage]])),
+      costPercentage: 0,
+      cachedInputRatio: getCachedInputRatio(usage),
+      cacheSavings: await calculateCacheSavings(new Map([[modelId, usage]])),
     });
   }
 
   const totalModelTokens = modelStats.reduce((sum, model) => sum + model.count, 0);
+  const totalModelCost = modelStats.reduce((sum, model) => sum + model.cost, 0);
   const percentageDenominator = totalTokens > 0 ? totalTokens : totalModelTokens;
 
-  const topModels = modelStats
+  const models = modelStats
     .sort((a, b) => b.count - a.count)
-    .slice(0, 3)
     .map((model) => ({
       ...model,
       percentage: percentageDenominator > 0 ? (model.count / percentageDenominator) * 100 : 0,
+      costPercentage: totalModelCost > 0 ? (model.cost / totalModelCost) * 100 : 0,
     }));
+  const topModels = models.slice(0, options.top ?? DEFAULT_TOP);
 
   const topProviders: ProviderStats[] = Array.from(providerCounts.entries())
     .sort((a, b) => b[1] - a[1])
@@ -88,11 +215,28 @@ export async function calculateStats(year: number): Promise<CodexStats> {
       percentage: percentageDenominator > 0 ? (count / percentageDenominator) * 100 : 0,
     }));
 
-  const { maxStreak, currentStreak, maxStreakDays } = calculateStreaks(dailyActivity, year);
+  const { days: maxStreakDays, ...streak } = calculateStreaks(dailyActivity, range, getTodayKey(timeZone), options.streak);
   const mostActiveDay = findMostActiveDay(dailyActivity);
   const weekdayActivity = buildWeekdayActivity(weekdayCounts);
+  const hourlyActivity = buildHourlyActivity(usageData.hourlyActivity, usageData.weekdayHourActivity);
+  const { tools, topShellCommands } = buildToolStats(usageData.toolCalls);
+  const codeChanges = buildCodeChangeStats(usageData.codeChanges, totalTokens);
+  const sessionTime = buildSessionTimeStats(usageData.time, options.idleGapMinutes ?? DEFAULT_IDLE_GAP_MINUTES);
+  const context = buildContextStats(usageData.context);
+  const monthly = await buildMonthlyStats(range, dailyActivity, usageData.monthlySessions, monthlyModelUsageTotals);
+  const prompts = usageData.prompts ? buildPromptStats(usageData.prompts) : null;
+  const rateLimits = buildRateLimitStats(usageData.rateLimits, timeZone);
+  const dailyTokens = new Map<string, number>();
+  const dailyCost = new Map<string, number>();
+  for (const [dateKey, modelUsage] of dailyModelUsageTotals.entries()) {
+    dailyTokens.set(dateKey, Array.from(modelUsage.values()).reduce((sum, usage) => sum + usage.totalTokens, 0));
+    dailyCost.set(dateKey, await calculateUsageCost(modelUsage));
+  }
+  const dailyHours = new Map(
+    Array.from(usageData.time.dailyActiveMs, ([dateKey, activeMs]) => [dateKey, activeMs / HOUR_MS] as const)
+  );
 
-  const historyFirstTs = await getCodexFirstPromptTimestamp();
+  const historyFirstTs = await getCodexFirstPromptTimestamp(options.codexHomes);
   const historyDate = historyFirstTs ? new Date(historyFirstTs * 1000) : null;
   let firstSessionDate = usageData.earliestSessionDate ?? historyDate ?? new Date();
   if (historyDate && usageData.earliestSessionDate && historyDate < usageData.earliestSessionDate) {
@@ -100,9 +244,17 @@ export async function calculateStats(year: number): Promise<CodexStats> {
   }
   const daysSinceFirstSession = Math.floor((Date.now() - firstSessionDate.getTime()) / (1000 * 60 * 60 * 24));
   const totalCost = await calculateUsageCost(modelUsageTotals);
-
-  return {
-    year,
+  const cacheSavings = await buildCacheSavingsStats(modelUsageTotals, totalCost);
+  const projects = await buildProjectStats(usageData.projects, projectModelUsageTotals);
+  const clients = await buildClientStats(usageData.clients, clientModelUsageTotals, usageData.totalSessions);
+  const cliVersions: CliVersionStats[] = Array.from(usageData.cliVersions.values()).sort(
+    (a, b) => a.firstUsed.getTime() - b.firstUsed.getTime()
+  );
+  const turnSettings = await buildTurnSettingStats(turnSettingUsage, usageData.turns.length);
+
+  const stats: Omit<CodexStats, "achievements"> = {
+    range,
+    timeZone,
     firstSessionDate,
     daysSinceFirstSession,
     totalSessions: usageData.totalSessions,
@@ -115,15 +267,40 @@ export async function calculateStats(year: number): Promise<CodexStats> {
     totalTokens,
     totalCost,
     hasUsageCost: totalCost > 0,
+    cacheSavings,
     topModels,
+    models,
     topProviders,
-    maxStreak,
-    currentStreak,
+    projects,
+    clients,
+    cliVersions,
+    codeChanges,
+    totalToolCalls: usageData.toolCalls.length,
+    tools,
+    topShellCommands,
+    totalTurns: usageData.turns.length,
+    turnSettings,
+    context,
+    rateLimits,
+    prompts,
+    comparison: null,
+    maxStreak: streak.longest?.length ?? 0,
+    currentStreak: streak.current,
     maxStreakDays,
+    streak,
     dailyActivity,
+    dailyTokens,
+    dailyCost,
+    dailySessions: usageData.dailySessions,
+    monthly,
+    sessionTime,
+    dailyHours,
     mostActiveDay,
     weekdayActivity,
+    hourlyActivity,
   };
+
+  return { ...stats, achievements: awardAchievements(stats) };
 }
 
 function resolveProviderId(modelId: string): string {
@@ -135,13 +312,6 @@ function resolveProviderId(modelId: string): string {
   return "openai";
 }
 
-function formatDateKey(date: Date): string {
-  const year = date.getFullYear();
-  const month = String(date.getMonth() + 1).padStart(2, "0");
-  const day = String(date.getDate()).padStart(2, "0");
-  return `${year}-${month}-${day}`;
-}
-
 function getEventTotal(event: CodexUsageEvent): number {
   const computed = event.inputTokens + event.outputTokens;
   return Math.max(event.totalTokens, computed);
@@ -161,6 +331,220 @@ function getOrCreateModelUsage(map: Map<string, ModelUsageTotals>, modelId: stri
   return fresh;
 }
 
+function addEventToModelUsage(usage: ModelUsageTotals, event: CodexUsageEvent, eventTotal: number): void {
+  usage.inputTokens += event.inputTokens;
+  usage.cachedInputTokens += event.cachedInputTokens;
+  usage.outputTokens += event.outputTokens;
+  usage.reasoningTokens += event.reasoningOutputTokens;
+  usage.totalTokens += eventTotal;
+}
+
+async function buildProjectStats(
+  projects: Map<string, CodexProjectUsage>,
+  projectModelUsageTotals: Map<string, Map<string, ModelUsageTotals>>
+): Promise<ProjectStats[]> {
+  const result: ProjectStats[] = [];
+
+  for (const project of projects.values()) {
+    const modelUsage = projectModelUsageTotals.get(project.id) ?? new Map<string, ModelUsageTotals>();
+    let tokens = 0;
+    for (const usage of modelUsage.values()) {
+      tokens += usage.totalTokens;
+    }
+
+    result.push({
+      id: project.id,
+      name: project.name,
+      path: project.path,
+      sessions: project.sessions,
+      messages: project.messages,
+      tokens,
+      cost: await calculateUsageCost(modelUsage),
+      activeDays: project.activeDays.size,
+      codeChanges: summarizeCodeChanges(project.codeChanges),
+      firstUsed: project.firstUsed,
+      lastUsed: project.lastUsed,
+    });
+  }
+
+  return result.sort((a, b) => b.tokens - a.tokens || b.messages - a.messages);
+}
+
+function createTurnSettingUsage(turns: CodexTurn[]): Record<TurnSettingKind, Map<string, TurnSettingUsage>> {
+  const usage = {
+    reasoningEffort: new Map<string, TurnSettingUsage>(),
+    approvalPolicy: new Map<string, TurnSettingUsage>(),
+    sandboxMode: new Map<string, TurnSettingUsage>(),
+  };
+  for (const turn of turns) {
+    for (const kind of TURN_SETTING_KINDS) {
+      getOrCreateTurnSettingUsage(usage[kind], turn[kind]).turns += 1;
+    }
+  }
+  return usage;
+}
+
+function getOrCreateTurnSettingUsage(map: Map<string, TurnSettingUsage>, value: string | undefined): TurnSettingUsage {
+  const key = value ?? DEFAULT_SETTING;
+  const existing = map.get(key);
+  if (existing) return existing;
+  const fresh = { turns: 0, modelUsage: new Map<string, ModelUsageTotals>() };
+  map.set(key, fresh);
+  return fresh;
+}
+
+async function buildTurnSettingStats(
+  usage: Record<TurnSettingKind, Map<string, TurnSettingUsage>>,
+  totalTurns: number
+): Promise<Record<TurnSettingKind, TurnSettingStats[]>> {
+  const build = async (kind: TurnSettingKind): Promise<TurnSettingStats[]> => {
+    const result: TurnSettingStats[] = [];
+    for (const [value, settingUsage] of usage[kind]) {
+      let tokens = 0;
+      for (const modelUsage of settingUsage.modelUsage.values()) {
+        tokens += modelUsage.totalTokens;
+      }
+      result.push({
+        value,
+        label: getTurnSettingLabel(kind, value),
+        turns: settingUsage.turns,
+        tokens,
+        cost: await calculateUsageCost(settingUsage.modelUsage),
+        percentage: totalTurns > 0 ? (settingUsage.turns / totalTurns) * 100 : 0,
+      });
+    }
+    return result.sort((a, b) => b.turns - a.turns || b.tokens - a.tokens);
+  };
+
+  return {
+    reasoningEffort: await build("reasoningEffort"),
+    approvalPolicy: await build("approvalPolicy"),
+    sandboxMode: await build("sandboxMode"),
+  };
+}
+
+async function buildClientStats(
+  clients: Map<string, CodexClientUsage>,
+  clientModelUsageTotals: Map<string, Map<string, ModelUsageTotals>>,
+  totalSessions: number
+): Promise<ClientStats[]> {
+  const result: ClientStats[] = [];
+
+  for (const client of clients.values()) {
+    const modelUsage = clientModelUsageTotals.get(client.originator) ?? new Map<string, ModelUsageTotals>();
+    let tokens = 0;
+    for (const usage of modelUsage.values()) {
+      tokens += usage.totalTokens;
+    }
+
+    const { name, surface } = getClientInfo(client.originator);
+    result.push({
+      id: client.originator,
+      name,
+      surface,
+      sessions: client.sessions,
+      messages: client.messages,
+      tokens,
+      cost: await calculateUsageCost(modelUsage),
+      percentage: totalSessions > 0 ? (client.sessions / totalSessions) * 100 : 0,
+    });
+  }
+
+  return result.sort((a, b) => b.sessions - a.sessions || b.tokens - a.tokens);
+}
+
+const monthLabelFormatter = new Intl.DateTimeFormat("en-US", { month: "short" });
+
+async function buildMonthlyStats(
+  range: DateRange,
+  dailyActivity: Map<string, number>,
+  monthlySessions: Map<string, number>,
+  monthlyModelUsageTotals: Map<string, Map<string, ModelUsageTotals>>
+): Promise<MonthlyStats[]> {
+  const monthlyMessages = new Map<string, number>();
+  for (const [dateKey, count] of dailyActivity.entries()) {
+    const monthKey = dateKey.slice(0, 7);
+    monthlyMessages.set(monthKey, (monthlyMessages.get(monthKey) || 0) + count);
+  }
+
+  const result: MonthlyStats[] = [];
+  const start = parseDateKey(range.from);
+  const month = new Date(start.getFullYear(), start.getMonth(), 1);
+  for (; formatDateKey(month) <= range.to; month.setMonth(month.getMonth() + 1)) {
+    const monthKey = formatDateKey(month).slice(0, 7);
+    const modelUsage = monthlyModelUsageTotals.get(monthKey) ?? new Map<string, ModelUsageTotals>();
+    const stats: MonthlyStats = {
+      month: monthKey,
+      label: monthLabelFormatter.format(month),
+      sessions: monthlySessions.get(monthKey) || 0,
+      messages: monthlyMessages.get(monthKey) || 0,
+      inputTokens: 0,
+      cachedInputTokens: 0,
+      outputTokens: 0,
+      reasoningTokens: 0,
+      totalTokens: 0,
+      cost: 0,
+      costByModel: new Map(),
+      cachedInputRatio: null,
+      cacheSavings: await calculateCacheSavings(modelUsage),
+    };
+
+    const modelCosts: Array<[string, number]> = [];
+    for (const [modelId, usage] of modelUsage.entries()) {
+      stats.inputTokens += usage.inputTokens;
+      stats.cachedInputTokens += usage.cachedInputTokens;
+      stats.outputTokens += usage.outputTokens;
+      stats.reasoningTokens += usage.reasoningTokens;
+      stats.totalTokens += usage.totalTokens;
+
+      const cost = await calculateUsageCost(new Map([[modelId, usage]]));
+      if (cost > 0) {
+        modelCosts.push([modelId, cost]);
+        stats.cost += cost;
+      }
+    }
+    stats.costByModel = new Map(modelCosts.sort((a, b) => b[1] - a[1]));
+    stats.cachedInputRatio = getCachedInputRatio(stats);
+
+    result.push(stats);
+  }
+
+  return result;
+}
+
+async function buildCacheSavingsStats(
+  modelUsageTotals: Map<string, ModelUsageTotals>,
+  totalCost: number
+): Promise<CacheSavingsStats> {
+  let inputTokens = 0;
+  let cachedInputTokens = 0;
+  for (const usage of modelUsageTotals.values()) {
+    inputTokens += usage.inputTokens;
+    cachedInputTokens += usage.cachedInputTokens;
+  }
+
+  const saved = await calculateCacheSavings(modelUsageTotals);
+  const costWithoutCache = totalCost + saved;
+  return {
+    costWithoutCache,
+    saved,
+    savedPercentage: costWithoutCache > 0 ? (saved / costWithoutCache) * 100 : 0,
+    cachedInputRatio: getCachedInputRatio({ inputTokens, cachedInputTokens }),
+  };
+}
+
+function getCachedInputRatio(usage: { inputTokens: number; cachedInputTokens: number }): number | null {
+  return usage.inputTokens > 0 ? Math.min(usage.cachedInputTokens, usage.inputTokens) / usage.inputTokens : null;
+}
+
+/** What cached input saved: the cost with every input token billed at the uncached rate, minus the actual cost */
+async function calculateCacheSavings(modelUsageTotals: Map<string, ModelUsageTotals>): Promise<number> {
+  const uncached = new Map(
+    Array.from(modelUsageTotals, ([modelId, usage]) => [modelId, { ...usage, cachedInputTokens: 0 }])
+  );
+  return (await calculateUsageCost(uncached)) - (await calculateUsageCost(modelUsageTotals));
+}
+
 async function calculateUsageCost(modelUsageTotals: Map<string, ModelUsageTotals>): Promise<number> {
   let totalCost = 0;
 
@@ -194,82 +578,6 @@ async function calculateUsageCost(modelUsageTotals: Map<string, ModelUsageTotals
   return totalCost;
 }
 
-function calculateStreaks(
-  dailyActivity: Map<string, number>,
-  year: number
-): { maxStreak: number; currentStreak: number; maxStreakDays: Set<string> } {
-  // Get all active dates sorted
-  const activeDates = Array.from(dailyActivity.keys())
-    .filter((date) => date.startsWith(String(year)))
-    .sort();
-
-  if (activeDates.length === 0) {
-    return { maxStreak: 0, currentStreak: 0, maxStreakDays: new Set() };
-  }
-
-  let maxStreak = 1;
-  let tempStreak = 1;
-  let tempStreakStart = 0;
-  let maxStreakStart = 0;
-  let maxStreakEnd = 0;
-
-  for (let i = 1; i < activeDates.length; i++) {
-    const prevDate = new Date(activeDates[i - 1]);
-    const currDate = new Date(activeDates[i]);
-
-    // Calculate difference in days
-    const diffTime = currDate.getTime() - prevDate.getTime();
-    const diffDays = Math.round(diffTime / (1000 * 60 * 60 * 24));
-
-    if (diffDays === 1) {
-      tempStreak++;
-      if (tempStreak > maxStreak) {
-        maxStreak = tempStreak;
-        maxStreakStart = tempStreakStart;
-        maxStreakEnd = i;
-      }
-    } else {
-      tempStreak = 1;
-      tempStreakStart = i;
-    }
-  }
-
-  // Build the set of max streak days
-  const maxStreakDays = new Set<string>();
-  for (let i = maxStreakStart; i <= maxStreakEnd; i++) {
-    maxStreakDays.add(activeDates[i]);
-  }
-
-  // Calculate current streak (from today or yesterday backwards)
-  const today = formatDateKey(new Date());
-  const yesterday = formatDateKey(new Date(Date.now() - 24 * 60 * 60 * 1000));
-
-  const currentStreak = dailyActivity.has(today)
-    ? countStreakBackwards(dailyActivity, new Date())
-    : dailyActivity.has(yesterday)
-    ? countStreakBackwards(dailyActivity, new Date(Date.now() - 24 * 60 * 60 * 1000))
-    : 0;
-
-  return { maxStreak, currentStreak, maxStreakDays };
-}
-
-/** Count consecutive days with activity going backwards from startDate (inclusive) */
-function countStreakBackwards(dailyActivity: Map<string, number>, startDate: Date): number {
-  let streak = 1;
-  let checkDate = new Date(startDate);
-
-  while (true) {
-    checkDate = new Date(checkDate.getTime() - 24 * 60 * 60 * 1000);
-    if (dailyActivity.has(formatDateKey(checkDate))) {
-      streak++;
-    } else {
-      break;
-    }
-  }
-
-  return streak;
-}
-
 function findMostActiveDay(dailyActivity: Map<string, number>): { date: string; count: number; formattedDate: string } | null {
   if (dailyActivity.size === 0) {
     return null;
@@ -289,9 +597,8 @@ function findMostActiveDay(dailyActivity: Map<string, number>): { date: string;
     return null;
   }
 
-  // Parse date string (YYYY-MM-DD) and format as "Mon D"
-  const [year, month, day] = maxDate.split("-").map(Number);
-  const dateObj = new Date(year, month - 1, day);
+  // Format date string (YYYY-MM-DD) as "Mon D"
+  const dateObj = parseDateKey(maxDate);
   const monthNames = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
   const formattedDate = `${monthNames[dateObj.getMonth()]} ${dateObj.getDate()}`;
 
@@ -321,3 +628,232 @@ function buildWeekdayActivity(counts: [number, number, number, number, number, n
     maxCount,
   };
 }
+
+function buildHourlyActivity(counts: number[], punchCard: number[][]): HourlyActivity {
+  let peakHour = 0;
+  let maxCount = 0;
+  for (let hour = 0; hour < 24; hour++) {
+    if (counts[hour] > maxCount) {
+      maxCount = counts[hour];
+      peakHour = hour;
+    }
+  }
+
+  const punchCardMax = Math.max(0, ...punchCard.flat());
+  const chronotype = classifyChronotype(counts);
+
+  return {
+    counts,
+    punchCard,
+    peakHour,
+    maxCount,
+    punchCardMax,
+    chronotype,
+    chronotypeName: CHRONOTYPE_NAMES[chronotype],
+  };
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+function buildSessionTimeStats(time: CodexTimeUsage, idleGapMinutes: number): SessionTimeStats {
+  const longest = time.longestSession;
+  return {
+    idleGapMinutes,
+    activeHours: time.activeMs / HOUR_MS,
+    wallClockHours: time.wallClockMs / HOUR_MS,
+    measuredSessions: time.sessions,
+    averageSessionMinutes: time.sessions > 0 ? time.activeMs / time.sessions / MINUTE_MS : 0,
+    longestSession: longest
+      ? {
+          activeMinutes: longest.activeMs / MINUTE_MS,
+          wallClockMinutes: longest.wallClockMs / MINUTE_MS,
+          startedAt: longest.startedAt,
+          projectName: longest.projectName ?? null,
+        }
+      : null,
+  };
+}
+
+function buildContextStats(context: CodexContextUsage): ContextStats {
+  const fullest = context.fullestSession;
+  return {
+    measuredSessions: context.sessions,
+    averageFillPercent: context.sessions > 0 ? context.averageFillSum / context.sessions : 0,
+    averagePeakFillPercent: context.sessions > 0 ? context.peakFillSum / context.sessions : 0,
+    fullestSession: fullest
+      ? { peakFillPercent: fullest.peakFillPercent, startedAt: fullest.startedAt, projectName: fullest.projectName ?? null }
+      : null,
+    autoCompactions: context.autoCompactions,
+    manualCompactions: context.manualCompactions,
+    sessionsOutOfContext: context.ranOutSessions,
+    cacheRatioByFill: context.fillBuckets.map((bucket, i) => ({
+      fromPercent: CONTEXT_FILL_BUCKETS[i],
+      toPercent: CONTEXT_FILL_BUCKETS[i + 1] ?? 100,
+      requests: bucket.requests,
+      cachedInputRatio: bucket.inputTokens > 0 ? bucket.cachedInputTokens / bucket.inputTokens : null,
+    })),
+  };
+}
+
+const TOP_PROMPT_WORDS = 10;
+
+function buildPromptStats(tally: PromptTally): PromptStats {
+  const wordCounts = [...tally.wordCounts].sort((a, b) => a - b);
+  const middle = Math.floor(wordCounts.length / 2);
+  const medianWords =
+    wordCounts.length === 0
+      ? 0
+      : wordCounts.length % 2 === 1
+      ? wordCounts[middle]
+      : (wordCounts[middle - 1] + wordCounts[middle]) / 2;
+
+  const lengthDistribution = tally.lengthBuckets.map((count, i) => {
+    const minWords = i === 0 ? 0 : PROMPT_LENGTH_BUCKETS[i - 1] + 1;
+    const maxWords = PROMPT_LENGTH_BUCKETS[i] ?? null;
+    return {
+      label: maxWords === null ? `${minWords}+ words` : `${minWords}-${maxWords} words`,
+      minWords,
+      maxWords,
+      count,
+      percentage: tally.prompts > 0 ? (count / tally.prompts) * 100 : 0,
+    };
+  });
+
+  const rank = (counts: Map<string, number>) =>
+    Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, TOP_PROMPT_WORDS);
+
+  return {
+    prompts: tally.prompts,
+    averageWords: tally.prompts > 0 ? tally.totalWords / tally.prompts : 0,
+    medianWords,
+    averageChars: tally.prompts > 0 ? tally.totalChars / tally.prompts : 0,
+    lengthDistribution,
+    longest: tally.longest
+      ? { words: tally.longest.words, chars: tally.longest.chars, sentAt: new Date(tally.longest.timestamp) }
+      : null,
+    images: tally.images,
+    promptsWithImages: tally.promptsWithImages,
+    topWords: rank(tally.words).map(([word, count]) => ({ word, count })),
+    topSlashCommands: rank(tally.slashCommands).map(([command, count]) => ({ command, count })),
+  };
+}
+
+function summarizeCodeChanges(codeChanges: CodexCodeChanges): CodeChangeSummary {
+  return {
+    additions: codeChanges.additions,
+    deletions: codeChanges.deletions,
+    files: codeChanges.files.size,
+  };
+}
+
+function buildCodeChangeStats(codeChanges: CodexCodeChanges, totalTokens: number): CodeChangeStats {
+  const changedLines = codeChanges.additions + codeChanges.deletions;
+  return {
+    ...summarizeCodeChanges(codeChanges),
+    patches: codeChanges.patches,
+    sessions: codeChanges.sessions,
+    tokensPerChangedLine: changedLines > 0 ? totalTokens / changedLines : null,
+  };
+}
+
+const TOP_SHELL_COMMANDS = 10;
+
+function buildToolStats(toolCalls: CodexToolCall[]): { tools: ToolStats[]; topShellCommands: ShellCommandStats[] } {
+  const toolCounts = new Map<string, ToolStats>();
+  const programCounts = new Map<string, number>();
+  let shellCalls = 0;
+
+  for (const toolCall of toolCalls) {
+    const tool = toolCounts.get(toolCall.name) ?? { name: toolCall.name, kind: toolCall.kind, count: 0, percentage: 0 };
+    tool.count += 1;
+    toolCounts.set(toolCall.name, tool);
+
+    if (toolCall.kind === "shell" && toolCall.program) {
+      shellCalls += 1;
+      programCounts.set(toolCall.program, (programCounts.get(toolCall.program) || 0) + 1);
+    }
+  }
+
+  const tools = Array.from(toolCounts.values())
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+    .map((tool) => ({ ...tool, percentage: (tool.count / toolCalls.length) * 100 }));
+
+  const topShellCommands = Array.from(programCounts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, TOP_SHELL_COMMANDS)
+    .map(([program, count]) => ({ program, count, percentage: (count / shellCalls) * 100 }));
+
+  return { tools, topShellCommands };
+}
+
+// Snapshots of one reset period disagree on the reset time by the few seconds between them
+const RESET_TOLERANCE_MS = 5 * MINUTE_MS;
+
+function buildRateLimitStats(snapshots: RateLimitSnapshot[], timeZone: string): RateLimitStats {
+  const getDateKeyOf = createDateKeyResolver(timeZone);
+  const windows: RateLimitWindowStats[] = [];
+  const throttledDays = new Set<string>();
+
+  for (const name of RATE_LIMIT_WINDOWS) {
+    const stats: RateLimitWindowStats = {
+      name,
+      label: "",
+      windowMinutes: null,
+      peakPercent: 0,
+      peakAt: null,
+      periods: 0,
+      hits: 0,
+      approaches: 0,
+      dailyPeak: new Map(),
+    };
+    const periodPeaks: number[] = [];
+    let period: { resetsAt?: number; lastPercent: number } | null = null;
+
+    for (const snapshot of snapshots) {
+      const window = snapshot[name];
+      if (!window) continue;
+
+      // A new reset time, or usage going down when the reset time is unknown, starts a new period
+      const startsPeriod =
+        !period ||
+        (window.resetsAt !== undefined && period.resetsAt !== undefined
+          ? Math.abs(window.resetsAt - period.resetsAt) > RESET_TOLERANCE_MS
+          : window.usedPercent < period.lastPercent);
+      if (startsPeriod) {
+        periodPeaks.push(window.usedPercent);
+      } else {
+        periodPeaks[periodPeaks.length - 1] = Math.max(periodPeaks[periodPeaks.length - 1], window.usedPercent);
+      }
+      period = { resetsAt: window.resetsAt, lastPercent: window.usedPercent };
+
+      if (window.windowMinutes) {
+        stats.windowMinutes = window.windowMinutes;
+      }
+      const observedAt = new Date(snapshot.timestamp);
+      if (window.usedPercent > stats.peakPercent) {
+        stats.peakPercent = window.usedPercent;
+        stats.peakAt = observedAt;
+      }
+
+      const dateKey = getDateKeyOf(observedAt.getTime());
+      stats.dailyPeak.set(dateKey, Math.max(stats.dailyPeak.get(dateKey) ?? 0, window.usedPercent));
+      if (window.usedPercent >= RATE_LIMIT_HIT_PERCENT) {
+        throttledDays.add(dateKey);
+      }
+    }
+
+    if (periodPeaks.length === 0) continue;
+    stats.label = getRateLimitWindowLabel(name, stats.windowMinutes ?? undefined);
+    stats.periods = periodPeaks.length;
+    stats.hits = periodPeaks.filter((peak) => peak >= RATE_LIMIT_HIT_PERCENT).length;
+    stats.approaches = periodPeaks.filter(
+      (peak) => peak >= RATE_LIMIT_APPROACH_PERCENT && peak < RATE_LIMIT_HIT_PERCENT
+    ).length;
+    windows.push(stats);
+  }
+
+  return { snapshots: snapshots.length, windows, throttledDays };
+}
@@ -0,0 +1,176 @@
+// Streaks - runs of active days or weeks under a chosen definition, and the breaks between them
+
+import type { DateRange, StreakMode, StreakStats } from "./types";
+import { addDaysToDateKey, diffDateKeys, getDateKeyWeekday } from "./utils/dates";
+import { isDateKeyInRange } from "./utils/range";
+
+export interface StreakOptions {
+  mode: StreakMode;
+  /** Weekdays (0=Sunday) that don't break a streak when idle */
+  restWeekdays?: number[];
+  /** Dates (YYYY-MM-DD), e.g. holidays, that don't break a streak when idle */
+  restDates?: string[];
+}
+
+const WEEKEND = [0, 6];
+
+const MODE_DEFINITIONS: Record<StreakMode, string> = {
+  daily: "consecutive days",
+  weekdays: "weekdays",
+  weekly: "weeks with activity",
+};
+
+type UnitStatus = "active" | "rest" | "idle";
+
+interface StreakUnit {
+  /** First day of the unit: the day itself, or the Sunday a week starts on */
+  key: string;
+  status: UnitStatus;
+}
+
+/**
+ * Longest and current streak of active days (or weeks, in weekly mode) within the range.
+ * Rest days and idle weekends in weekdays mode neither break a streak nor count towards it.
+ */
+export function calculateStreaks(
+  dailyActivity: Map<string, number>,
+  range: DateRange,
+  today: string,
+  options: StreakOptions = { mode: "daily" }
+): StreakStats & { days: Set<string> } {
+  const activeDates = Array.from(dailyActivity.keys())
+    .filter((date) => isDateKeyInRange(date, range))
+    .sort();
+  const restDays = getRestDayCheck(options);
+  const weekly = options.mode === "weekly";
+  const units = weekly
+    ? getWeekUnits(range, today, dailyActivity, restDays)
+    : getDayUnits(range, today, dailyActivity, restDays);
+
+  let longest: { length: number; start: number; end: number } | null = null;
+  let length = 0;
+  let start = -1;
+  for (let i = 0; i < units.length; i++) {
+    const { status } = units[i];
+    if (status === "idle") {
+      length = 0;
+    } else if (status === "active") {
+      if (length === 0) start = i;
+      length++;
+      if (!longest || length > longest.length) {
+        longest = { length, start, end: i };
+      }
+    }
+  }
+
+  // The streak runs from its first to its last active day
+  const days = new Set<string>();
+  if (longest) {
+    const from = units[longest.start].key;
+    const to = weekly ? addDaysToDateKey(units[longest.end].key, 6) : units[longest.end].key;
+    for (const date of activeDates) {
+      if (date >= from && date <= to) days.add(date);
+    }
+  }
+  const streakDates = Array.from(days);
+
+  return {
+    mode: options.mode,
+    unit: weekly ? "week" : "day",
+    definition: getStreakDefinition(options),
+    longest: longest && {
+      length: longest.length,
+      from: streakDates[0],
+      to: streakDates[streakDates.length - 1],
+    },
+    current: weekly
+      ? countCurrentStreak(units, addDaysToDateKey(today, -getDateKeyWeekday(today)), 7)
+      : countCurrentStreak(units, today, 1),
+    days,
+    longestBreak: findLongestBreak(activeDates),
+  };
+}
+
+/** Short description of what counts as a streak, shown next to it */
+export function getStreakDefinition(options: StreakOptions): string {
+  const hasRestDays = (options.restWeekdays?.length ?? 0) > 0 || (options.restDates?.length ?? 0) > 0;
+  const definition = MODE_DEFINITIONS[options.mode];
+  return hasRestDays && options.mode !== "weekly" ? `${definition} + rest days` : definition;
+}
+
+function getRestDayCheck(options: StreakOptions): (dateKey: string) => boolean {
+  const weekdays = new Set([...(options.mode === "weekdays" ? WEEKEND : []), ...(options.restWeekdays ?? [])]);
+  const dates = new Set(options.restDates);
+  return (dateKey) => dates.has(dateKey) || weekdays.has(getDateKeyWeekday(dateKey));
+}
+
+/** Every day of the range up to today */
+function getDayUnits(
+  range: DateRange,
+  today: string,
+  dailyActivity: Map<string, number>,
+  isRestDay: (dateKey: string) => boolean
+): StreakUnit[] {
+  const units: StreakUnit[] = [];
+  const end = range.to > today ? today : range.to;
+  for (let key = range.from; key <= end; key = addDaysToDateKey(key, 1)) {
+    units.push({ key, status: dailyActivity.has(key) ? "active" : isRestDay(key) ? "rest" : "idle" });
+  }
+  return units;
+}
+
+/** Sunday-based weeks overlapping the range up to today; a week made up only of idle rest days is a rest week */
+function getWeekUnits(
+  range: DateRange,
+  today: string,
+  dailyActivity: Map<string, number>,
+  isRestDay: (dateKey: string) => boolean
+): StreakUnit[] {
+  const units: StreakUnit[] = [];
+  for (const day of getDayUnits(range, today, dailyActivity, isRestDay)) {
+    const key = addDaysToDateKey(day.key, -getDateKeyWeekday(day.key));
+    const week = units[units.length - 1];
+    if (!week || week.key !== key) {
+      units.push({ key, status: day.status });
+    } else if (day.status === "active" || (day.status === "idle" && week.status === "rest")) {
+      week.status = day.status;
+    }
+  }
+  return units;
+}
+
+/**
+ * Streak running into the current unit (today, or this week in weekly mode). The current unit may still be
+ * idle since it isn't over yet; a range that ended before the previous unit has no current streak.
+ */
+function countCurrentStreak(units: StreakUnit[], currentKey: string, unitDays: number): number {
+  let end = units.length - 1;
+  if (end < 0) return 0;
+  if (units[end].key === currentKey) {
+    if (units[end].status === "idle") end--;
+  } else if (addDaysToDateKey(units[end].key, unitDays) !== currentKey) {
+    return 0;
+  }
+
+  let streak = 0;
+  for (let i = end; i >= 0 && units[i].status !== "idle"; i--) {
+    if (units[i].status === "active") streak++;
+  }
+  return streak;
+}
+
+/** Longest run of days without activity between two active days */
+function findLongestBreak(activeDates: string[]): StreakStats["longestBreak"] {
+  let longestBreak: StreakStats["longestBreak"] = null;
+  for (let i = 1; i < activeDates.length; i++) {
+    const days = diffDateKeys(activeDates[i - 1], activeDates[i]) - 1;
+    if (days > 0 && (!longestBreak || days > longestBreak.days)) {
+      longestBreak = {
+        days,
+        from: addDaysToDateKey(activeDates[i - 1], 1),
+        to: addDaysToDateKey(activeDates[i], -1),
+      };
+    }
+  }
+  return longestBreak;
+}
@@ -0,0 +1,14 @@
+// Sparklines for terminal output
+
+const BLOCKS = ["▁", "▂", "▃", "▄", "▅", "▆", "▇", "█"];
+
+/** One block character per value, scaled against `max`; zero values render as a space */
+export function formatSparkline(values: number[], max: number): string {
+  return values
+    .map((value) => {
+      if (value <= 0 || max <= 0) return " ";
+      const level = Math.ceil((Math.min(value, max) / max) * BLOCKS.length) - 1;
+      return BLOCKS[Math.max(0, level)];
+    })
+    .join("");
+}
@@ -0,0 +1,27 @@
+// Plain-text tables for terminal output
+
+export type ColumnAlign = "left" | "right";
+
+export interface TableColumn {
+  header: string;
+  align?: ColumnAlign;
+}
+
+/** Render rows as a fixed-width table with a header rule, suitable for p.note() */
+export function formatTable(columns: TableColumn[], rows: string[][]): string {
+  const widths = columns.map((column, i) => Math.max(column.header.length, ...rows.map((row) => (row[i] ?? "").length)));
+
+  const formatRow = (cells: string[]) =>
+    columns
+      .map((column, i) => {
+        const cell = cells[i] ?? "";
+        return column.align === "right" ? cell.padStart(widths[i]) : cell.padEnd(widths[i]);
+      })
+      .join("  ")
+      .trimEnd();
+
+  const header = formatRow(columns.map((column) => column.header));
+  const rule = widths.map((width) => "─".repeat(width)).join("  ");
+
+  return [header, rule, ...rows.map(formatRow)].join("\n");
+}
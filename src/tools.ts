@@ -0,0 +1,106 @@
+// Tool calls - classifies rollout response items into the tools Codex invoked
+
+import { basename } from "node:path";
+
+import type { ToolKind } from "./types";
+
+export interface ParsedToolCall {
+  /** Tool name; every command runner is folded into "shell", MCP tools keep "server__tool" */
+  name: string;
+  kind: ToolKind;
+  /** Program a shell call ran, e.g. "rg" or "npm" (never its arguments) */
+  program?: string;
+}
+
+// Function tools that execute a command line, across Codex versions
+const SHELL_TOOL_NAMES = new Set(["shell", "container.exec", "shell_command", "exec_command", "local_shell"]);
+const SHELL_WRAPPERS = new Set(["bash", "sh", "zsh", "pwsh", "powershell"]);
+const MCP_DELIMITER = "__";
+
+/**
+ * Classify a `response_item` payload. Returns null for items that are not tool invocations
+ * (messages, reasoning, tool outputs).
+ */
+export function parseToolCall(payload: Record<string, unknown> | undefined): ParsedToolCall | null {
+  switch (payload?.type) {
+    case "function_call":
+    case "custom_tool_call":
+      return classifyNamedCall(payload);
+    case "local_shell_call": {
+      const action = payload.action as Record<string, unknown> | undefined;
+      return { name: "shell", kind: "shell", program: getProgram(action?.command) };
+    }
+    case "web_search_call":
+      return { name: "web_search", kind: "web_search" };
+    default:
+      return null;
+  }
+}
+
+function classifyNamedCall(payload: Record<string, unknown>): ParsedToolCall | null {
+  const name = typeof payload.name === "string" ? payload.name.trim() : "";
+  if (!name) return null;
+
+  if (SHELL_TOOL_NAMES.has(name)) {
+    const args = parseArguments(payload.arguments);
+    return { name: "shell", kind: "shell", program: getProgram(args?.command ?? args?.cmd) };
+  }
+  if (name === "apply_patch") {
+    return { name, kind: "apply_patch" };
+  }
+  if (name === "view_image") {
+    return { name, kind: "view_image" };
+  }
+  if (name === "web_search") {
+    return { name, kind: "web_search" };
+  }
+
+  // MCP tools are qualified as "server__tool" (newer versions prefix "mcp__")
+  const qualified = name.startsWith(`mcp${MCP_DELIMITER}`) ? name.slice(3 + MCP_DELIMITER.length) : name;
+  if (qualified.includes(MCP_DELIMITER)) {
+    return { name: qualified, kind: "mcp" };
+  }
+
+  return { name, kind: "other" };
+}
+
+function parseArguments(value: unknown): Record<string, unknown> | undefined {
+  if (typeof value !== "string") return undefined;
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === "object" ? (parsed as Record<string, unknown>) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Program behind an argv array (unwrapping `bash -lc "..."`) or a command line string */
+function getProgram(command: unknown): string | undefined {
+  if (Array.isArray(command)) {
+    const argv = command.filter((part): part is string => typeof part === "string");
+    if (argv.length === 0) return undefined;
+    const wrapper = basename(argv[0]);
+    if (SHELL_WRAPPERS.has(wrapper) && argv.length >= 3 && /^-\w*c$/.test(argv[1])) {
+      return getScriptProgram(argv[2]);
+    }
+    return basename(argv[0]);
+  }
+  if (typeof command === "string") {
+    return getScriptProgram(command);
+  }
+  return undefined;
+}
+
+/** First program in a script that does more than change directory or set variables */
+function getScriptProgram(script: string): string | undefined {
+  for (const segment of script.split(/&&|\|\||[;|\n]/)) {
+    const words = segment.trim().split(/\s+/).filter(Boolean);
+    while (words.length > 0 && /^[A-Za-z_][A-Za-z0-9_]*=/.test(words[0])) {
+      words.shift();
+    }
+    const program = words[0];
+    if (!program || program === "cd" || program === "set") continue;
+    return basename(program.replace(/^["']|["']$/g, ""));
+  }
+  return undefined;
+}
@@ -0,0 +1,66 @@
+// Turn context - reasoning effort and approval/sandbox policy a turn ran with
+
+import type { TurnSettingKind } from "./types";
+
+export interface TurnSettings {
+  /** "minimal" | "low" | "medium" | "high" (newer models add "xhigh") */
+  reasoningEffort?: string;
+  /** "untrusted" | "on-failure" | "on-request" | "never" */
+  approvalPolicy?: string;
+  /** "read-only" | "workspace-write" | "danger-full-access" */
+  sandboxMode?: string;
+}
+
+/** Key used for turns that don't record a setting (older rollouts, or the model default) */
+export const DEFAULT_SETTING = "default";
+
+const SETTING_LABELS: Record<TurnSettingKind, Record<string, string>> = {
+  reasoningEffort: {
+    minimal: "Minimal",
+    low: "Low",
+    medium: "Medium",
+    high: "High",
+    xhigh: "Extra High",
+  },
+  approvalPolicy: {
+    untrusted: "Untrusted",
+    "on-failure": "On Failure",
+    "on-request": "On Request",
+    never: "Never Ask",
+  },
+  sandboxMode: {
+    "read-only": "Read Only",
+    "workspace-write": "Workspace Write",
+    "danger-full-access": "Full Access",
+  },
+};
+
+/** Read the settings of a `turn_context` payload */
+export function parseTurnSettings(payload: Record<string, unknown> | undefined): TurnSettings {
+  if (!payload) return {};
+  return {
+    reasoningEffort: normalizeSetting(payload.effort ?? payload.reasoning_effort),
+    approvalPolicy: normalizeSetting(payload.approval_policy),
+    sandboxMode: getSandboxMode(payload.sandbox_policy),
+  };
+}
+
+export function getTurnSettingLabel(kind: TurnSettingKind, value: string): string {
+  if (value === DEFAULT_SETTING) return "Default";
+  return SETTING_LABELS[kind][value] ?? value;
+}
+
+/** The sandbox policy is a plain string in some versions and `{ mode }` or `{ type }` in others */
+function getSandboxMode(policy: unknown): string | undefined {
+  if (policy && typeof policy === "object") {
+    const record = policy as Record<string, unknown>;
+    return normalizeSetting(record.mode ?? record.type);
+  }
+  return normalizeSetting(policy);
+}
+
+function normalizeSetting(value: unknown): string | undefined {
+  if (typeof value !== "string") return undefined;
+  const normalized = value.trim().toLowerCase().replace(/_/g, "-");
+  return normalized === "" ? undefined : normalized;
+}
@@ -10,11 +10,19 @@ export interface SessionData {
     created: number;
     updated: number;
   };
-  summary?: {
-    additions: number;
-    deletions: number;
-    files: number;
-  };
+  summary?: CodeChangeSummary;
+}
+
+export interface CodeChangeSummary {
+  additions: number; // lines added
+  deletions: number; // lines removed
+  files: number; // distinct files touched
+}
+
+export interface CodeChangeStats extends CodeChangeSummary {
+  patches: number; // patches applied successfully
+  sessions: number; // sessions that applied at least one patch
+  tokensPerChangedLine: number | null; // total tokens / (additions + deletions)
 }
 
 export interface MessageData {
@@ -59,10 +67,203 @@ export interface ModelStats {
   id: string;
   name: string;
   providerId: string;
+  count: number; // Total tokens
+  percentage: number; // Share of all tokens
+  inputTokens: number;
+  cachedInputTokens: number;
+  outputTokens: number;
+  reasoningTokens: number;
+  messages: number; // Prompts the model answered
+  cost: number;
+  costPercentage: number; // Share of the total cost
+  cachedInputRatio: number | null; // Cached share of input tokens; null without input
+  cacheSavings: number; // Cost avoided by cached input
+}
+
+export interface ProjectStats {
+  id: string;
+  name: string;
+  path: string;
+  sessions: number;
+  messages: number;
+  tokens: number;
+  cost: number;
+  activeDays: number;
+  codeChanges: CodeChangeSummary;
+  firstUsed: Date | null;
+  lastUsed: Date | null;
+}
+
+export interface SessionTimeStats {
+  idleGapMinutes: number; // pauses longer than this are not active time
+  activeHours: number;
+  wallClockHours: number;
+  measuredSessions: number; // sessions with at least two timestamps
+  averageSessionMinutes: number; // active minutes per measured session
+  longestSession: {
+    activeMinutes: number;
+    wallClockMinutes: number;
+    startedAt: Date;
+    projectName: string | null;
+  } | null;
+}
+
+export type ToolKind = "shell" | "apply_patch" | "mcp" | "web_search" | "view_image" | "other";
+
+export interface ToolStats {
+  name: string; // "shell", "apply_patch", MCP tools as "server__tool"
+  kind: ToolKind;
+  count: number;
+  percentage: number;
+}
+
+export interface ShellCommandStats {
+  program: string; // e.g. "rg", "git"
   count: number;
   percentage: number;
 }
 
+export type TurnSettingKind = "reasoningEffort" | "approvalPolicy" | "sandboxMode";
+
+export interface TurnSettingStats {
+  value: string; // raw setting, e.g. "high" or "workspace-write"; "default" when not recorded
+  label: string; // e.g. "High" or "Workspace Write"
+  turns: number;
+  tokens: number;
+  cost: number;
+  percentage: number; // share of turns
+}
+
+export interface RateLimitWindowStats {
+  name: "primary" | "secondary";
+  label: string; // window length, e.g. "5h" or "Weekly"
+  windowMinutes: number | null;
+  peakPercent: number;
+  peakAt: Date | null;
+  periods: number; // reset periods observed
+  hits: number; // periods that reached 100%
+  approaches: number; // periods that peaked at 80% or more without reaching 100%
+  dailyPeak: Map<string, number>; // "2025-01-15" -> highest used percent that day
+}
+
+export interface RateLimitStats {
+  snapshots: number;
+  windows: RateLimitWindowStats[]; // windows that reported any usage
+  throttledDays: Set<string>; // days on which any window reached 100%
+}
+
+export interface ContextStats {
+  measuredSessions: number; // sessions that reported a context window
+  averageFillPercent: number; // mean of each session's average fill
+  averagePeakFillPercent: number; // mean of each session's peak fill
+  fullestSession: {
+    peakFillPercent: number;
+    startedAt: Date;
+    projectName: string | null;
+  } | null;
+  autoCompactions: number;
+  manualCompactions: number;
+  sessionsOutOfContext: number; // filled the window or hit a context-window error
+  cacheRatioByFill: {
+    fromPercent: number; // bucket covers fills from this percent...
+    toPercent: number; // ...up to (not including) this one
+    requests: number;
+    cachedInputRatio: number | null; // cached input / input
+  }[];
+}
+
+export type ClientSurface = "terminal" | "ide" | "exec" | "other";
+
+export interface ClientStats {
+  id: string; // originator, e.g. "codex_cli_rs"; "unknown" when the rollout doesn't record it
+  name: string; // e.g. "CLI", "VS Code", "Exec"
+  surface: ClientSurface;
+  sessions: number;
+  messages: number;
+  tokens: number;
+  cost: number;
+  percentage: number; // share of sessions
+}
+
+export interface CliVersionStats {
+  version: string;
+  sessions: number;
+  firstUsed: Date;
+  lastUsed: Date;
+}
+
+export interface MonthlyStats {
+  month: string; // "2026-03"
+  label: string; // "Mar"
+  sessions: number;
+  messages: number;
+  inputTokens: number;
+  cachedInputTokens: number;
+  outputTokens: number;
+  reasoningTokens: number;
+  totalTokens: number;
+  cost: number;
+  costByModel: Map<string, number>; // model id -> cost, highest first
+  cachedInputRatio: number | null;
+  cacheSavings: number;
+}
+
+export interface CacheSavingsStats {
+  costWithoutCache: number; // Cost if every input token had been billed at the uncached rate
+  saved: number;
+  savedPercentage: number; // Share of costWithoutCache
+  cachedInputRatio: number | null; // Cached share of all input tokens
+}
+
+export type ComparisonMetric =
+  | "sessions"
+  | "messages"
+  | "tokens"
+  | "cost"
+  | "projects"
+  | "streak"
+  | "activeDays"
+  | "busiestDay"
+  | "activeHours"
+  | "longestSession"
+  | "averageSession"
+  | "linesWritten"
+  | "filesTouched"
+  | "toolCalls";
+
+export interface MetricDelta {
+  current: number;
+  previous: number;
+  change: number;
+  percentChange: number | null; // null when the previous value was zero
+}
+
+export interface StatsComparison {
+  range: DateRange; // The range compared against
+  metrics: Record<ComparisonMetric, MetricDelta>;
+  newModels: ModelStats[]; // Used in this range but not in the compared one
+  droppedModels: ModelStats[]; // Used in the compared range but not in this one
+}
+
+export interface PromptStats {
+  prompts: number;
+  averageWords: number;
+  medianWords: number;
+  averageChars: number;
+  lengthDistribution: {
+    label: string; // e.g. "11-25 words"
+    minWords: number;
+    maxWords: number | null; // null for the open-ended last bucket
+    count: number;
+    percentage: number;
+  }[];
+  longest: { words: number; chars: number; sentAt: Date } | null;
+  images: number; // screenshots and other images attached
+  promptsWithImages: number;
+  topWords: { word: string; count: number }[]; // stop words left out
+  topSlashCommands: { command: string; count: number }[];
+}
+
 export interface ProviderStats {
   id: string;
   name: string;
@@ -70,8 +271,16 @@ export interface ProviderStats {
   percentage: number;
 }
 
+export interface DateRange {
+  from: string; // Inclusive start, "2025-07-01"
+  to: string; // Inclusive end, "2026-06-30"
+  label: string; // Shown on the card, e.g. "2025" or "Q3 2026"
+  slug: string; // Used in file names, e.g. "2025" or "2026-q3"
+}
+
 export interface CodexStats {
-  year: number;
+  range: DateRange;
+  timeZone: string; // IANA zone that days and hours are bucketed in
 
   // Time-based
   firstSessionDate: Date;
@@ -92,20 +301,67 @@ export interface CodexStats {
   // Cost (if available)
   totalCost: number;
   hasUsageCost: boolean;
+  cacheSavings: CacheSavingsStats;
 
   // Models (sorted by usage)
-  topModels: ModelStats[];
+  topModels: ModelStats[]; // The first --top models (default: 3)
+  models: ModelStats[]; // Every model used, by tokens
 
   // Providers (sorted by usage)
   topProviders: ProviderStats[];
 
-  // Streak
+  // Projects (all of them, sorted by tokens)
+  projects: ProjectStats[];
+
+  // Clients (sorted by sessions) and CLI versions (in order of first use)
+  clients: ClientStats[];
+  cliVersions: CliVersionStats[];
+
+  // Code changes from applied patches
+  codeChanges: CodeChangeStats;
+
+  // Tool calls (all tools and the most frequent shell programs, sorted by count)
+  totalToolCalls: number;
+  tools: ToolStats[];
+  topShellCommands: ShellCommandStats[];
+
+  // Turns by reasoning effort and approval/sandbox policy (sorted by turns)
+  totalTurns: number;
+  turnSettings: Record<TurnSettingKind, TurnSettingStats[]>;
+
+  // Context window fill and compactions
+  context: ContextStats;
+
+  // Plan rate limits, from the snapshots token_count events carry
+  rateLimits: RateLimitStats;
+
+  // Prompt analytics; only collected when asked for (--prompts), since it reads prompt text
+  prompts: PromptStats | null;
+
+  // Deltas against another range (--compare)
+  comparison: StatsComparison | null;
+
+  // Achievements earned over these stats, and the persona they point to
+  achievements: AchievementStats;
+
+  // Streak, in days or weeks depending on streak.mode
   maxStreak: number;
   currentStreak: number;
   maxStreakDays: Set<string>; // Days that form the max streak (for heatmap highlighting)
+  streak: StreakStats;
 
-  // Activity heatmap (for the year)
+  // Activity heatmap (for the range)
   dailyActivity: Map<string, number>; // "2025-01-15" -> count
+  dailyTokens: Map<string, number>;
+  dailyCost: Map<string, number>;
+  dailySessions: Map<string, number>; // Sessions active on the day
+
+  // Every month of the range, including empty ones
+  monthly: MonthlyStats[];
+
+  // Time spent, estimated from rollout timestamps
+  sessionTime: SessionTimeStats;
+  dailyHours: Map<string, number>; // "2025-01-15" -> active hours
 
   // Most active day
   mostActiveDay: {
@@ -116,6 +372,9 @@ export interface CodexStats {
 
   // Weekday activity distribution (0=Sunday, 6=Saturday)
   weekdayActivity: WeekdayActivity;
+
+  // Hour-of-day activity distribution
+  hourlyActivity: HourlyActivity;
 }
 
 export interface WeekdayActivity {
@@ -125,7 +384,49 @@ export interface WeekdayActivity {
   maxCount: number;
 }
 
+export type Chronotype = "early-bird" | "nine-to-five" | "night-owl" | "around-the-clock";
+
+export interface HourlyActivity {
+  counts: number[]; // 24 buckets, index = hour of day
+  punchCard: number[][]; // [weekday][hour], 0=Sunday
+  peakHour: number;
+  maxCount: number;
+  punchCardMax: number;
+  chronotype: Chronotype;
+  chronotypeName: string;
+}
+
+export interface Achievement {
+  id: string; // e.g. "night-owl"
+  name: string; // e.g. "Night Owl"
+  description: string; // What earned it, e.g. "30% of messages sent between 22:00 and 04:00"
+  value: number; // Measured value
+  threshold: number; // Value it had to reach
+}
+
+export interface AchievementStats {
+  persona: { name: string; achievementId: string; description: string } | null; // e.g. "The Night Owl"
+  badges: Achievement[]; // Strongest first
+}
+
+/** What counts as a streak: every day, weekdays only (idle weekends don't break it) or weeks with any activity */
+export type StreakMode = "daily" | "weekdays" | "weekly";
+
+export interface StreakStats {
+  mode: StreakMode;
+  unit: "day" | "week";
+  definition: string; // e.g. "weekdays + rest days"
+  longest: { length: number; from: string; to: string } | null; // First and last active day of the longest streak
+  current: number;
+  longestBreak: { days: number; from: string; to: string } | null; // Longest run of idle days between two active days
+}
+
+/** Per-day series the activity heatmap is colored by */
+export type HeatmapMetric = "messages" | "tokens" | "cost" | "sessions" | "hours";
+
 export interface CliArgs {
   year?: number;
+  from?: string;
+  to?: string;
   help?: boolean;
 }
@@ -0,0 +1,27 @@
+// Bounded-concurrency helpers for I/O heavy pipelines
+
+/**
+ * Map over items with at most `limit` calls in flight at once.
+ * Calls interleave on the current thread while they await I/O; CPU-bound work is not spread across cores.
+ * Results keep the order of the input, regardless of completion order.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+
+  async function worker(): Promise<void> {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  }
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, () => worker()));
+
+  return results;
+}
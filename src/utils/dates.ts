@@ -1,62 +1,44 @@
-// Date utilities for heatmap generation
+// Date utilities - YYYY-MM-DD calendar keys and time zone aware bucketing
+//
+// Instants (timestamps) are turned into date keys with getDateKey() in the user's chosen
+// time zone; everything after that is plain calendar arithmetic on keys.
 
-export function generateWeeksForYear(year: number): string[][] {
-  const weeks: string[][] = [];
+import type { DateRange } from "../types";
 
-  // Start from Jan 1st of the year
-  const startDate = new Date(year, 0, 1);
+export function generateWeeksForRange(range: DateRange, today: string): string[][] {
+  const weeks: string[][] = [];
 
   // Adjust to start from the first Sunday (or the day itself if it's Sunday)
-  const startDay = startDate.getDay();
-  const adjustedStart = new Date(startDate);
-  if (startDay !== 0) {
-    adjustedStart.setDate(startDate.getDate() - startDay);
-  }
+  let currentKey = addDaysToDateKey(range.from, -getDateKeyWeekday(range.from));
 
-  // End date is Dec 31st or today if it's the current year
-  const now = new Date();
-  const isCurrentYear = year === now.getFullYear();
-  const endDate = isCurrentYear ? now : new Date(year, 11, 31);
+  // End date is the end of the range, or today if the range is still in progress
+  const endKey = range.to > today ? today : range.to;
 
-  let currentDate = new Date(adjustedStart);
   let currentWeek: string[] = [];
 
-  while (currentDate <= endDate || currentWeek.length > 0) {
-    const dayOfWeek = currentDate.getDay();
-
-    // Format date as YYYY-MM-DD
-    const dateStr = formatDateKey(currentDate);
-
-    // Only include dates within the year
-    if (currentDate.getFullYear() === year && currentDate <= endDate) {
-      currentWeek.push(dateStr);
-    } else if (currentDate.getFullYear() === year) {
-      // Pad with empty strings for dates outside range but in the week
+  while (currentKey <= endKey || currentWeek.length > 0) {
+    // Only include dates within the range; pad the rest of the week so columns stay aligned
+    if (currentKey >= range.from && currentKey <= endKey) {
+      currentWeek.push(currentKey);
+    } else {
       currentWeek.push("");
     }
 
-    // If it's Saturday (end of week) or we've passed the end date
-    if (dayOfWeek === 6) {
-      if (currentWeek.length > 0 && currentWeek.some((d) => d !== "")) {
+    // If it's Saturday (end of week)
+    if (getDateKeyWeekday(currentKey) === 6) {
+      if (currentWeek.some((d) => d !== "")) {
         weeks.push(currentWeek);
       }
       currentWeek = [];
     }
 
-    currentDate.setDate(currentDate.getDate() + 1);
-
-    // Safety: stop if we've gone too far past the year
-    if (currentDate.getFullYear() > year + 1) break;
-  }
-
-  // Add any remaining days
-  if (currentWeek.length > 0 && currentWeek.some((d) => d !== "")) {
-    weeks.push(currentWeek);
+    currentKey = addDaysToDateKey(currentKey, 1);
   }
 
   return weeks;
 }
 
+/** Format a local calendar date (as returned by parseDateKey) as YYYY-MM-DD */
 export function formatDateKey(date: Date): string {
   const year = date.getFullYear();
   const month = String(date.getMonth() + 1).padStart(2, "0");
@@ -64,6 +46,113 @@ export function formatDateKey(date: Date): string {
   return `${year}-${month}-${day}`;
 }
 
+/** Parse a YYYY-MM-DD key as a local calendar date */
+export function parseDateKey(dateKey: string): Date {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/** Shift a YYYY-MM-DD key by whole calendar days */
+export function addDaysToDateKey(dateKey: string, days: number): string {
+  const date = parseDateKey(dateKey);
+  date.setDate(date.getDate() + days);
+  return formatDateKey(date);
+}
+
+/** Weekday of a YYYY-MM-DD key (0=Sunday, 6=Saturday) */
+export function getDateKeyWeekday(dateKey: string): number {
+  return parseDateKey(dateKey).getDay();
+}
+
+/** Number of calendar days from one YYYY-MM-DD key to another */
+export function diffDateKeys(from: string, to: string): number {
+  return Math.round((parseDateKey(to).getTime() - parseDateKey(from).getTime()) / (24 * 60 * 60 * 1000));
+}
+
+export interface ZonedDateParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number; // 0-23
+  weekday: number; // 0=Sunday, 6=Saturday
+}
+
+const WEEKDAY_INDEX: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+const zonedFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/** Validate an IANA time zone name, defaulting to the system zone */
+export function resolveTimeZone(timeZone?: string): string {
+  if (!timeZone) {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone;
+  }
+  try {
+    return new Intl.DateTimeFormat("en-US", { timeZone }).resolvedOptions().timeZone;
+  } catch {
+    throw new Error(`Unknown time zone "${timeZone}" (expected an IANA name such as Europe/Berlin)`);
+  }
+}
+
+/** Date key of an instant as seen in the given time zone */
+export function getDateKey(date: Date, timeZone: string): string {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+// Every UTC offset is a multiple of 15 minutes, so all instants in such a slot share a date key
+const DATE_KEY_SLOT_MS = 15 * 60 * 1000;
+
+/**
+ * getDateKey() for long runs of nearby epoch-ms timestamps: consecutive instants in the same
+ * 15-minute slot reuse the previous key instead of formatting again.
+ */
+export function createDateKeyResolver(timeZone: string): (epochMs: number) => string {
+  let slot = NaN;
+  let dateKey = "";
+  return (epochMs) => {
+    const current = Math.floor(epochMs / DATE_KEY_SLOT_MS);
+    if (current !== slot) {
+      slot = current;
+      dateKey = getDateKey(new Date(epochMs), timeZone);
+    }
+    return dateKey;
+  };
+}
+
+/** Today's date key in the given time zone */
+export function getTodayKey(timeZone: string): string {
+  return getDateKey(new Date(), timeZone);
+}
+
+/** Calendar fields of an instant as seen in the given time zone */
+export function getZonedParts(date: Date, timeZone: string): ZonedDateParts {
+  let formatter = zonedFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      weekday: "short",
+    });
+    zonedFormatters.set(timeZone, formatter);
+  }
+
+  const parts: Record<string, string> = {};
+  for (const part of formatter.formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    weekday: WEEKDAY_INDEX[parts.weekday] ?? 0,
+  };
+}
+
 export function getIntensityLevel(count: number, maxCount: number): 0 | 1 | 2 | 3 | 4 | 5 | 6 {
   if (count === 0) return 0;
   if (maxCount === 0) return 0;
@@ -79,18 +168,16 @@ export function getIntensityLevel(count: number, maxCount: number): 0 | 1 | 2 |
   return 6;
 }
 
-export function isWrappedAvailable(year: number): { available: boolean; message?: string | string[] } {
-  const now = new Date();
-  const currentYear = now.getFullYear();
-
-  if (year < currentYear) {
-    return { available: true };
-  }
+export function isWrappedAvailable(
+  range: DateRange,
+  timeZone: string
+): { available: boolean; message?: string | string[] } {
+  const today = getTodayKey(timeZone);
 
-  if (year > currentYear) {
+  if (range.from > today) {
     return {
       available: false,
-      message: `Codex Wrapped ${year} isn't available yet. The future hasn't been written!`,
+      message: `Codex Wrapped ${range.label} isn't available yet. The future hasn't been written!`,
     };
   }
 
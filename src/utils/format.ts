@@ -1,5 +1,8 @@
 // Number and text formatting utilities
 
+import type { MetricDelta } from "../types";
+import { getDateKey, parseDateKey } from "./dates";
+
 const compactFormatter = new Intl.NumberFormat("en-US", {
   notation: "compact",
   maximumFractionDigits: 1,
@@ -60,10 +63,45 @@ export function formatCostFull(cost: number): string {
   return currencyFullFormatter.format(cost);
 }
 
-export function formatDate(date: Date): string {
-  return dateFormatter.format(date);
+/** Calendar date of an instant as seen in the given time zone, e.g. "March 27, 2026" */
+export function formatDate(date: Date, timeZone: string): string {
+  return dateFormatter.format(parseDateKey(getDateKey(date, timeZone)));
+}
+
+/** Like formatDate(), without the year, e.g. "Mar 27" */
+export function formatShortDate(date: Date, timeZone: string): string {
+  return shortDateFormatter.format(parseDateKey(getDateKey(date, timeZone)));
+}
+
+/** Span of two YYYY-MM-DD keys, e.g. "Mar 2 – Mar 27", or "Mar 2" for a single day */
+export function formatDateKeyRange(from: string, to: string): string {
+  const start = shortDateFormatter.format(parseDateKey(from));
+  return from === to ? start : `${start} – ${shortDateFormatter.format(parseDateKey(to))}`;
+}
+
+export function truncate(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text;
+  return `${text.slice(0, Math.max(maxLength - 1, 0))}…`;
+}
+
+/** 24-hour clock label for an hour bucket, e.g. 9 -> "09:00" */
+export function formatHour(hour: number): string {
+  return `${String(hour).padStart(2, "0")}:00`;
+}
+
+/** Compact duration, e.g. 95 -> "1h 35m", 42 -> "42m" */
+export function formatDuration(minutes: number): string {
+  const rounded = Math.round(minutes);
+  if (rounded < 60) return `${rounded}m`;
+  const hours = Math.floor(rounded / 60);
+  const rest = rounded % 60;
+  return rest > 0 ? `${hours}h ${rest}m` : `${hours}h`;
 }
 
-export function formatShortDate(date: Date): string {
-  return shortDateFormatter.format(date);
+/** Relative change, e.g. "+42%", "-8%", or "new" when the compared value was zero */
+export function formatDelta(delta: MetricDelta): string {
+  if (delta.percentChange === null) return delta.current > 0 ? "new" : "±0%";
+  const rounded = Math.round(delta.percentChange);
+  if (rounded === 0) return "±0%";
+  return rounded > 0 ? `+${rounded}%` : `${rounded}%`;
 }
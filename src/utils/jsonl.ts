@@ -0,0 +1,28 @@
+// Streaming JSONL reader - keeps memory flat for very large rollout files
+
+import { createReadStream } from "node:fs";
+import { createInterface } from "node:readline";
+
+/**
+ * Yield each parsed JSON line of a file, one at a time.
+ * Blank and malformed lines are skipped; read errors reject the iteration.
+ */
+export async function* readJsonLines(filePath: string): AsyncGenerator<any> {
+  const stream = createReadStream(filePath, { encoding: "utf8" });
+  const lines = createInterface({ input: stream, crlfDelay: Infinity });
+
+  try {
+    for await (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed) continue;
+      try {
+        yield JSON.parse(trimmed);
+      } catch {
+        // Skip malformed lines
+      }
+    }
+  } finally {
+    lines.close();
+    stream.destroy();
+  }
+}
@@ -0,0 +1,11 @@
+// Filesystem path helpers
+
+import { join } from "node:path";
+import os from "node:os";
+
+/** Expand a leading "~" to the user's home directory */
+export function expandHomeDir(path: string): string {
+  if (path === "~") return os.homedir();
+  if (path.startsWith("~/")) return join(os.homedir(), path.slice(2));
+  return path;
+}
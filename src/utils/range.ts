@@ -0,0 +1,245 @@
+// Report date range resolution for CLI options
+
+import type { DateRange } from "../types";
+import { addDaysToDateKey, diffDateKeys, formatDateKey, getTodayKey, parseDateKey, resolveTimeZone } from "./dates";
+
+export interface DateRangeOptions {
+  year?: string;
+  from?: string;
+  to?: string;
+  quarter?: string;
+  month?: string;
+  last?: string;
+  label?: string;
+}
+
+const MAX_RANGE_DAYS = 366;
+const MONTH_NAMES = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+const DATE_KEY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const MONTH_PATTERN = /^(\d{4})-(\d{2})$/;
+const QUARTER_PATTERNS = [/^(\d{4})-?Q([1-4])$/i, /^Q([1-4])[- ]?(\d{4})$/i];
+const LAST_PATTERN = /^(\d+)\s*([dw])$/i;
+
+/**
+ * Resolve the report range from CLI options.
+ * Only one of --year, --quarter, --month, --last or --from/--to may be used.
+ * Open-ended selectors (--last, --to, the default year) are anchored on `today`,
+ * which callers should compute in the user's time zone.
+ * Throws with a user-facing message when the options are invalid.
+ */
+export function resolveDateRange(options: DateRangeOptions, today: string = getTodayKey(resolveTimeZone())): DateRange {
+  const selectors = [
+    options.year !== undefined && "--year",
+    options.quarter !== undefined && "--quarter",
+    options.month !== undefined && "--month",
+    options.last !== undefined && "--last",
+    (options.from !== undefined || options.to !== undefined) && "--from/--to",
+  ].filter(Boolean);
+
+  if (selectors.length > 1) {
+    throw new Error(`Use only one of ${selectors.join(", ")}`);
+  }
+
+  let range: DateRange;
+  if (options.quarter !== undefined) {
+    range = parseQuarter(options.quarter);
+  } else if (options.month !== undefined) {
+    range = parseMonth(options.month);
+  } else if (options.last !== undefined) {
+    range = parseLast(options.last, today);
+  } else if (options.from !== undefined || options.to !== undefined) {
+    range = parseFromTo(options.from, options.to, today);
+  } else {
+    range = yearRange(options.year !== undefined ? parseYear(options.year) : parseDateKey(today).getFullYear());
+  }
+
+  const days = countDaysInRange(range);
+  if (days > MAX_RANGE_DAYS) {
+    throw new Error(`Date ranges longer than ${MAX_RANGE_DAYS} days are not supported (got ${days} days)`);
+  }
+
+  if (options.label) {
+    return { ...range, label: options.label, slug: slugify(options.label) || range.slug };
+  }
+
+  return range;
+}
+
+/**
+ * The same range moved into another year, for --compare.
+ * A range spanning New Year moves by its start year; Feb 29 becomes Feb 28 in common years.
+ * A range still under way is compared up to the same day as `today`, not with the whole other period.
+ */
+export function resolveComparisonRange(
+  range: DateRange,
+  year: string,
+  today: string = getTodayKey(resolveTimeZone())
+): DateRange {
+  if (!/^\d{4}$/.test(year)) {
+    throw new Error(`Invalid --compare "${year}" (expected YYYY)`);
+  }
+
+  const offset = parseInt(year, 10) - parseDateKey(range.from).getFullYear();
+  if (offset === 0) {
+    throw new Error(`--compare ${year} is the year being reported; pick another year`);
+  }
+
+  const from = shiftDateKeyByYears(range.from, offset);
+  const to = shiftDateKeyByYears(today >= range.from && today < range.to ? today : range.to, offset);
+  return {
+    from,
+    to,
+    label: formatRangeLabel(from, to),
+    slug: `${from}_${to}`,
+  };
+}
+
+export function isDateKeyInRange(dateKey: string, range: DateRange): boolean {
+  return dateKey >= range.from && dateKey <= range.to;
+}
+
+export function countDaysInRange(range: DateRange): number {
+  return diffDateKeys(range.from, range.to) + 1;
+}
+
+export function yearRange(year: number): DateRange {
+  return {
+    from: `${year}-01-01`,
+    to: `${year}-12-31`,
+    label: String(year),
+    slug: String(year),
+  };
+}
+
+function parseYear(value: string): number {
+  if (!/^\d{4}$/.test(value)) {
+    throw new Error(`Invalid --year "${value}" (expected YYYY)`);
+  }
+  return parseInt(value, 10);
+}
+
+function parseQuarter(value: string): DateRange {
+  let year: number | null = null;
+  let quarter: number | null = null;
+
+  const yearFirst = QUARTER_PATTERNS[0].exec(value.trim());
+  const quarterFirst = QUARTER_PATTERNS[1].exec(value.trim());
+  if (yearFirst) {
+    year = parseInt(yearFirst[1], 10);
+    quarter = parseInt(yearFirst[2], 10);
+  } else if (quarterFirst) {
+    quarter = parseInt(quarterFirst[1], 10);
+    year = parseInt(quarterFirst[2], 10);
+  }
+
+  if (year === null || quarter === null) {
+    throw new Error(`Invalid --quarter "${value}" (expected e.g. 2026Q3)`);
+  }
+
+  const startMonth = (quarter - 1) * 3;
+  return {
+    from: formatDateKey(new Date(year, startMonth, 1)),
+    to: formatDateKey(new Date(year, startMonth + 3, 0)),
+    label: `Q${quarter} ${year}`,
+    slug: `${year}-q${quarter}`,
+  };
+}
+
+function parseMonth(value: string): DateRange {
+  const match = MONTH_PATTERN.exec(value.trim());
+  const month = match ? parseInt(match[2], 10) : 0;
+  if (!match || month < 1 || month > 12) {
+    throw new Error(`Invalid --month "${value}" (expected YYYY-MM)`);
+  }
+
+  const year = parseInt(match[1], 10);
+  return {
+    from: formatDateKey(new Date(year, month - 1, 1)),
+    to: formatDateKey(new Date(year, month, 0)),
+    label: `${MONTH_NAMES[month - 1]} ${year}`,
+    slug: `${year}-${match[2]}`,
+  };
+}
+
+function parseLast(value: string, today: string): DateRange {
+  const match = LAST_PATTERN.exec(value.trim());
+  const amount = match ? parseInt(match[1], 10) : 0;
+  if (!match || amount < 1) {
+    throw new Error(`Invalid --last "${value}" (expected e.g. 30d or 12w)`);
+  }
+
+  const unit = match[2].toLowerCase();
+  const days = unit === "w" ? amount * 7 : amount;
+  return {
+    from: addDaysToDateKey(today, -(days - 1)),
+    to: today,
+    label: unit === "w" ? `Last ${amount} weeks` : `Last ${amount} days`,
+    slug: `last-${amount}${unit}`,
+  };
+}
+
+function parseFromTo(from: string | undefined, to: string | undefined, today: string): DateRange {
+  if (from === undefined) {
+    throw new Error("--to requires --from");
+  }
+
+  const fromKey = parseDateOption("--from", from);
+  const toKey = to !== undefined ? parseDateOption("--to", to) : today;
+  if (toKey < fromKey) {
+    throw new Error(`--to (${toKey}) must not be before --from (${fromKey})`);
+  }
+
+  return {
+    from: fromKey,
+    to: toKey,
+    label: formatRangeLabel(fromKey, toKey),
+    slug: `${fromKey}_${toKey}`,
+  };
+}
+
+/** Validate a YYYY-MM-DD option value */
+export function parseDateOption(flag: string, value: string): string {
+  const match = DATE_KEY_PATTERN.exec(value.trim());
+  if (match) {
+    const date = parseDateKey(match[0]);
+    // Reject dates like 2026-02-31 that Date silently rolls over
+    if (formatDateKey(date) === match[0]) {
+      return match[0];
+    }
+  }
+  throw new Error(`Invalid ${flag} "${value}" (expected YYYY-MM-DD)`);
+}
+
+function shiftDateKeyByYears(dateKey: string, years: number): string {
+  const date = parseDateKey(dateKey);
+  const shifted = new Date(date.getFullYear() + years, date.getMonth(), 1);
+  const lastDay = new Date(shifted.getFullYear(), shifted.getMonth() + 1, 0).getDate();
+  shifted.setDate(Math.min(date.getDate(), lastDay));
+  return formatDateKey(shifted);
+}
+
+function formatRangeLabel(fromKey: string, toKey: string): string {
+  const from = parseDateKey(fromKey);
+  const to = parseDateKey(toKey);
+  const startsOnMonth = from.getDate() === 1;
+  const endsOnMonth = new Date(to.getFullYear(), to.getMonth() + 1, 0).getDate() === to.getDate();
+
+  if (startsOnMonth && endsOnMonth) {
+    if (from.getFullYear() === to.getFullYear() && from.getMonth() === 0 && to.getMonth() === 11) {
+      return String(from.getFullYear());
+    }
+    const start = `${MONTH_NAMES[from.getMonth()]} ${from.getFullYear()}`;
+    const end = `${MONTH_NAMES[to.getMonth()]} ${to.getFullYear()}`;
+    return start === end ? start : `${start} – ${end}`;
+  }
+
+  return `${fromKey} – ${toKey}`;
+}
+
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}